@@ -0,0 +1,234 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import { BlockingTimeoutError } from "../../utils";
+import { attachBlocking } from "../attachBlocking";
+import type { DetachBlocking } from "../attachBlocking.types";
+
+describe("attachBlocking", () => {
+  let detach: DetachBlocking | undefined;
+
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  afterEach(() => {
+    detach?.();
+    detach = undefined;
+  });
+
+  it("should block while a query with meta.blocking is pending", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    let resolveQuery: ((value: string) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    renderHook(
+      () =>
+        useQuery({
+          queryKey: ["users"],
+          queryFn,
+          meta: { blocking: { scope: "users", reasonOnLoading: "Loading users..." } },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("users");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading users...");
+      expect(info[0]?.priority).toBe(10);
+    });
+
+    resolveQuery?.("done");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("users")).toBe(false);
+    });
+  });
+
+  it("should ignore queries without meta.blocking", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    const { result } = renderHook(
+      () =>
+        useQuery({
+          queryKey: ["plain"],
+          queryFn: () => new Promise(() => undefined),
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("fetching");
+    });
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+  });
+
+  it("should fail the query with BlockingTimeoutError with onTimeoutAction 'error'", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    const { result } = renderHook(
+      () =>
+        useQuery({
+          queryKey: ["timeout-error"],
+          queryFn: () => new Promise(() => undefined),
+          meta: {
+            blocking: { scope: "users", onError: true, timeout: 50, onTimeoutAction: "error" },
+          },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(result.current.error).toBeInstanceOf(BlockingTimeoutError);
+    expect(uiBlockingStoreApi.getState().isBlocked("users")).toBe(false);
+  });
+
+  it("should block while a mutation with meta.blocking is pending", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    let resolveMutation: ((value: string) => void) | undefined;
+    const mutationFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveMutation = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useMutation({
+          mutationFn,
+          meta: { blocking: { scope: "form", reasonOnPending: "Saving form..." } },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("form");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Saving form...");
+      expect(info[0]?.priority).toBe(30);
+    });
+
+    resolveMutation?.("done");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("form")).toBe(false);
+    });
+  });
+
+  it("should keep blocking a failed mutation when onError is true", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    const { result } = renderHook(
+      () =>
+        useMutation({
+          mutationFn: () => Promise.reject(new Error("failed")),
+          meta: {
+            blocking: { scope: "form", onError: true, reasonOnError: "Save failed" },
+          },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    const info = uiBlockingStoreApi.getState().getBlockingInfo("form");
+    expect(info).toHaveLength(1);
+    expect(info[0]?.reason).toBe("Save failed");
+  });
+
+  it("should resolve scope and priority functions with the mutation variables", async () => {
+    const queryClient = createTestQueryClient();
+    detach = attachBlocking(queryClient);
+
+    const { result } = renderHook(
+      () =>
+        useMutation({
+          mutationFn: (_rowId: number) => new Promise(() => undefined),
+          meta: {
+            blocking: {
+              scope: (rowId: unknown) => `row-${String(rowId)}`,
+              priority: (rowId: unknown) => (rowId === 42 ? 50 : 30),
+            },
+          },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    result.current.mutate(42);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("row-42");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.priority).toBe(50);
+    });
+  });
+
+  it("should remove every created blocker on detach", async () => {
+    const queryClient = createTestQueryClient();
+    const detachBlocking = attachBlocking(queryClient);
+
+    renderHook(
+      () =>
+        useQuery({
+          queryKey: ["detach"],
+          queryFn: () => new Promise(() => undefined),
+          meta: { blocking: { scope: "detach" } },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("detach")).toBe(true);
+    });
+
+    detachBlocking();
+
+    expect(uiBlockingStoreApi.getState().isBlocked("detach")).toBe(false);
+  });
+
+  it("should pick up queries already in the cache when attached", async () => {
+    const queryClient = createTestQueryClient();
+
+    renderHook(
+      () =>
+        useQuery({
+          queryKey: ["existing"],
+          queryFn: () => new Promise(() => undefined),
+          meta: { blocking: { scope: "existing" } },
+        }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    expect(uiBlockingStoreApi.getState().isBlocked("existing")).toBe(false);
+
+    detach = attachBlocking(queryClient);
+
+    expect(uiBlockingStoreApi.getState().isBlocked("existing")).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { uiBlockingStoreApi, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { blockingQueryOptions } from "../../options/blockingQueryOptions";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import {
+  ensureQueryDataWithBlocking,
+  fetchQueryWithBlocking,
+  prefetchInfiniteQueryWithBlocking,
+} from "../queryLoaders";
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (error: unknown) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("queryLoaders", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should block for the duration of fetchQueryWithBlocking", async () => {
+    const queryClient = createTestQueryClient();
+    const request = deferred<string>();
+
+    const promise = fetchQueryWithBlocking(
+      queryClient,
+      { queryKey: ["user", 1], queryFn: () => request.promise },
+      { scope: "navigation", reasonOnLoading: "Loading user..." }
+    );
+
+    const info = uiBlockingStoreApi.getState().getBlockingInfo("navigation");
+    expect(info).toHaveLength(1);
+    expect(info[0]?.reason).toBe("Loading user...");
+    expect(info[0]?.priority).toBe(10);
+
+    request.resolve("Ada");
+
+    await expect(promise).resolves.toBe("Ada");
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+  });
+
+  it("should remove the blocker when the fetch fails", async () => {
+    const queryClient = createTestQueryClient();
+
+    const promise = fetchQueryWithBlocking(
+      queryClient,
+      { queryKey: ["user", 2], queryFn: () => Promise.reject(new Error("Not found")) },
+      { scope: "navigation" }
+    );
+
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(true);
+
+    await expect(promise).rejects.toThrow("Not found");
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+  });
+
+  it("should use the blockingConfig bundled by blockingQueryOptions", async () => {
+    const queryClient = createTestQueryClient();
+    const request = deferred<string>();
+    const options = blockingQueryOptions({
+      queryKey: ["user", 3],
+      queryFn: () => request.promise,
+      blockingConfig: { scope: "navigation", reason: "Bundled" },
+    });
+
+    const promise = ensureQueryDataWithBlocking(queryClient, options);
+
+    expect(uiBlockingStoreApi.getState().getBlockingInfo("navigation")[0]?.reason).toBe("Bundled");
+
+    request.resolve("Ada");
+    await promise;
+
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+  });
+
+  it("should not block ensureQueryDataWithBlocking when data is cached", async () => {
+    const queryClient = createTestQueryClient();
+    const queryFn = vi.fn().mockResolvedValue("fresh");
+    queryClient.setQueryData(["user", 4], "cached");
+
+    const promise = ensureQueryDataWithBlocking(
+      queryClient,
+      { queryKey: ["user", 4], queryFn },
+      { scope: "navigation" }
+    );
+
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+    await expect(promise).resolves.toBe("cached");
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should block for the duration of prefetchInfiniteQueryWithBlocking", async () => {
+    const queryClient = createTestQueryClient();
+    const request = deferred<Array<string>>();
+
+    const promise = prefetchInfiniteQueryWithBlocking(
+      queryClient,
+      { queryKey: ["feed"], queryFn: () => request.promise, initialPageParam: 0 },
+      { scope: "navigation" }
+    );
+
+    const info = uiBlockingStoreApi.getState().getBlockingInfo("navigation");
+    expect(info).toHaveLength(1);
+    expect(info[0]?.reason).toBe("Loading more data...");
+
+    request.resolve(["item"]);
+    await promise;
+
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+    expect(queryClient.getQueryData(["feed"])).toEqual({ pages: [["item"]], pageParams: [0] });
+  });
+
+  it("should respect timeout and onTimeout", async () => {
+    vi.useFakeTimers();
+    const queryClient = createTestQueryClient();
+    const onTimeout = vi.fn();
+    const request = deferred<string>();
+
+    const promise = fetchQueryWithBlocking(
+      queryClient,
+      { queryKey: ["slow"], queryFn: () => request.promise },
+      { scope: "navigation", timeout: 1000, onTimeout }
+    );
+
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+
+    request.resolve("late");
+    await expect(promise).resolves.toBe("late");
+  });
+
+  it("should register the blocker in the given store", async () => {
+    const queryClient = createTestQueryClient();
+    const { result } = renderHook(() => useResolvedStoreApi(), {
+      wrapper: createWrapper({ isolated: true }),
+    });
+    const store = result.current;
+    const request = deferred<string>();
+
+    const promise = fetchQueryWithBlocking(
+      queryClient,
+      { queryKey: ["isolated"], queryFn: () => request.promise },
+      { scope: "navigation" },
+      { store }
+    );
+
+    expect(store.getState().isBlocked("navigation")).toBe(true);
+    expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+
+    request.resolve("done");
+    await promise;
+
+    expect(store.getState().isBlocked("navigation")).toBe(false);
+  });
+});
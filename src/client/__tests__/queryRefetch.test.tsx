@@ -0,0 +1,114 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useQuery } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import { invalidateQueriesWithBlocking, refetchQueriesWithBlocking } from "../queryRefetch";
+
+describe("queryRefetch", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  function renderActiveQuery(queryKey: Array<string>) {
+    const queryClient = createTestQueryClient();
+    let resolveRefetch: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("initial")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRefetch = resolve;
+          })
+      );
+
+    const { result } = renderHook(() => useQuery({ queryKey, queryFn }), {
+      wrapper: createWrapper({ queryClient }),
+    });
+
+    return {
+      queryClient,
+      result,
+      resolveRefetch: (value: string) => resolveRefetch?.(value),
+    };
+  }
+
+  it("should block until invalidated active queries have refetched", async () => {
+    const { queryClient, result, resolveRefetch } = renderActiveQuery(["orders"]);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("initial");
+    });
+
+    const promise = invalidateQueriesWithBlocking(
+      queryClient,
+      { queryKey: ["orders"] },
+      { scope: "orders-table", reasonOnRefetch: "Refreshing orders..." }
+    );
+
+    const info = uiBlockingStoreApi.getState().getBlockingInfo("orders-table");
+    expect(info).toHaveLength(1);
+    expect(info[0]?.reason).toBe("Refreshing orders...");
+    expect(info[0]?.priority).toBe(10);
+
+    resolveRefetch("refreshed");
+    await promise;
+
+    expect(queryClient.getQueryData(["orders"])).toBe("refreshed");
+    expect(uiBlockingStoreApi.getState().isBlocked("orders-table")).toBe(false);
+  });
+
+  it("should block until refetchQueries settles", async () => {
+    const { queryClient, result, resolveRefetch } = renderActiveQuery(["dashboard"]);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("initial");
+    });
+
+    const promise = refetchQueriesWithBlocking(
+      queryClient,
+      { queryKey: ["dashboard"] },
+      { scope: "dashboard", reason: "Syncing..." }
+    );
+
+    expect(uiBlockingStoreApi.getState().getBlockingInfo("dashboard")[0]?.reason).toBe(
+      "Syncing..."
+    );
+
+    resolveRefetch("refreshed");
+    await promise;
+
+    expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(false);
+  });
+
+  it("should remove the blocker when the refetch fails with throwOnError", async () => {
+    const queryClient = createTestQueryClient();
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("initial")
+      .mockRejectedValue(new Error("Refetch failed"));
+
+    const { result } = renderHook(
+      () => useQuery({ queryKey: ["failing"], queryFn, retry: false }),
+      {
+        wrapper: createWrapper({ queryClient }),
+      }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("initial");
+    });
+
+    await expect(
+      refetchQueriesWithBlocking(
+        queryClient,
+        { queryKey: ["failing"] },
+        { scope: "dashboard" },
+        { throwOnError: true }
+      )
+    ).rejects.toThrow("Refetch failed");
+
+    expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(false);
+  });
+});
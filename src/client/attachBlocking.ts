@@ -0,0 +1,263 @@
+import { type BlockerConfig, uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { createQueryTimeoutHandler } from "../internal";
+import {
+  getQueryBlockingState,
+  isBlockingError,
+  resolveBlockingReason,
+  resolveVariablesValue,
+} from "../utils";
+import type { Mutation, Query, QueryClient } from "@tanstack/react-query";
+import type {
+  AttachBlockingOptions,
+  DetachBlocking,
+  MutationBlockingMeta,
+  QueryBlockingMeta,
+} from "./attachBlocking.types";
+
+interface ResolvedBlocker {
+  shouldBlock: boolean;
+  config: BlockerConfig;
+}
+
+/**
+ * Derives the blocker state of a cached query from its `meta.blocking` config.
+ * Mirrors `useBlockingQuery`: pending queries only block while observed or fetching,
+ * so cached-but-unused queries never hold a blocker.
+ */
+function resolveQueryBlocker(queryClient: QueryClient, query: Query): ResolvedBlocker | undefined {
+  const blockingConfig = (query.meta as QueryBlockingMeta | undefined)?.blocking;
+
+  if (!blockingConfig) {
+    return undefined;
+  }
+
+  const {
+    scope,
+    reason = "Loading data...",
+    reasonOnLoading,
+    reasonOnFetching,
+    reasonOnError,
+    reasonOnPaused,
+    priority = 10,
+    timeout,
+    onTimeout,
+    onLoading = true,
+    onFetching = false,
+    onError = false,
+    shouldBlockOnError,
+    onPaused = true,
+    onTimeoutAction = "unblock",
+  } = blockingConfig;
+
+  const isObserved = query.getObserversCount() > 0;
+  const isFetching = query.state.fetchStatus === "fetching";
+  const isPending = query.state.status === "pending" && (isObserved || isFetching);
+  const isRefetching = isFetching && query.state.status !== "pending";
+  const isError = query.state.status === "error" && isObserved;
+  const isBlockingOnError =
+    onError && isBlockingError(isError, query.state.error, shouldBlockOnError);
+  const isPaused = query.state.fetchStatus === "paused";
+
+  return {
+    shouldBlock:
+      (onPaused || !isPaused) &&
+      ((onLoading && isPending) || (onFetching && isRefetching) || isBlockingOnError),
+    config: {
+      scope,
+      reason: resolveBlockingReason(
+        {
+          defaultReason: reason,
+          stateReasons: [
+            { condition: isPaused, reason: reasonOnPaused },
+            { condition: isPending, reason: reasonOnLoading },
+            { condition: isRefetching, reason: reasonOnFetching },
+            { condition: isError, reason: reasonOnError },
+          ],
+        },
+        getQueryBlockingState(query.state)
+      ),
+      priority,
+      timeout,
+      onTimeout: createQueryTimeoutHandler(
+        queryClient,
+        query.queryHash,
+        onTimeoutAction,
+        timeout,
+        onTimeout
+      ),
+    },
+  };
+}
+
+/**
+ * Derives the blocker state of a cached mutation from its `meta.blocking` config.
+ * Mirrors `useBlockingMutation`: errored mutations keep blocking (when `onError` is set)
+ * until they are garbage collected from the MutationCache, and `scope` / `priority`
+ * functions receive the variables of each cached mutation.
+ */
+function resolveMutationBlocker(mutation: Mutation): ResolvedBlocker | undefined {
+  const blockingConfig = (mutation.meta as MutationBlockingMeta | undefined)?.blocking;
+
+  if (!blockingConfig) {
+    return undefined;
+  }
+
+  const {
+    scope,
+    reason = "Saving changes...",
+    reasonOnPending,
+    reasonOnError,
+    reasonOnPaused,
+    priority = 30,
+    timeout,
+    onTimeout,
+    onError = false,
+    shouldBlockOnError,
+  } = blockingConfig;
+  const { variables } = mutation.state;
+
+  const isPending = mutation.state.status === "pending";
+  const isError = mutation.state.status === "error";
+
+  return {
+    shouldBlock:
+      isPending || (onError && isBlockingError(isError, mutation.state.error, shouldBlockOnError)),
+    config: {
+      scope: scope && resolveVariablesValue(scope, variables),
+      reason: resolveBlockingReason(
+        {
+          defaultReason: reason,
+          stateReasons: [
+            { condition: mutation.state.isPaused, reason: reasonOnPaused },
+            { condition: isPending, reason: reasonOnPending },
+            { condition: isError, reason: reasonOnError },
+          ],
+        },
+        mutation.state
+      ),
+      priority: resolveVariablesValue(priority, variables),
+      timeout,
+      onTimeout,
+    },
+  };
+}
+
+/**
+ * Installs UI blocking on a QueryClient without wrapper hooks.
+ *
+ * Subscribes to the client's QueryCache and MutationCache and drives blockers from the
+ * `meta.blocking` object of every query and mutation. The config has the same shape as
+ * `QueryBlockingConfig` / `MutationBlockingConfig` and uses the same defaults
+ * (priority 10 for queries, 30 for mutations), so plain `useQuery`/`useMutation` calls
+ * and generated hooks participate in the blocking system.
+ *
+ * @param queryClient - QueryClient whose caches should be observed
+ * @param options - Integration options
+ * @param options.store - Store that receives the blockers (default: global store)
+ * @returns Function that detaches the integration and removes every blocker it created
+ *
+ * @example
+ * ```ts
+ * const queryClient = new QueryClient();
+ * const detach = attachBlocking(queryClient);
+ *
+ * function Users() {
+ *   const query = useQuery({
+ *     queryKey: ['users'],
+ *     queryFn: fetchUsers,
+ *     meta: {
+ *       blocking: { scope: 'users-table', reasonOnLoading: 'Loading users...' },
+ *     },
+ *   });
+ *   return null;
+ * }
+ *
+ * // Later, e.g. on app teardown
+ * detach();
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function attachBlocking(
+  queryClient: QueryClient,
+  options: AttachBlockingOptions = {}
+): DetachBlocking {
+  const { store = uiBlockingStoreApi } = options;
+  const registeredBlockers = new Map<string, BlockerConfig>();
+
+  const removeBlocker = (blockerId: string): void => {
+    if (registeredBlockers.delete(blockerId)) {
+      store.getState().removeBlocker(blockerId);
+    }
+  };
+
+  const syncBlocker = (blockerId: string, resolved: ResolvedBlocker | undefined): void => {
+    if (!resolved?.shouldBlock) {
+      removeBlocker(blockerId);
+      return;
+    }
+
+    const { addBlocker, updateBlocker, activeBlockers } = store.getState();
+    const previousConfig = registeredBlockers.get(blockerId);
+
+    if (!previousConfig) {
+      addBlocker(blockerId, resolved.config);
+      registeredBlockers.set(blockerId, resolved.config);
+      return;
+    }
+
+    // The store removed the blocker on timeout - don't resurrect it until the state settles.
+    if (!activeBlockers.has(blockerId)) {
+      return;
+    }
+
+    if (
+      previousConfig.reason !== resolved.config.reason ||
+      previousConfig.priority !== resolved.config.priority ||
+      previousConfig.scope !== resolved.config.scope
+    ) {
+      updateBlocker(blockerId, resolved.config);
+      registeredBlockers.set(blockerId, resolved.config);
+    }
+  };
+
+  const syncQuery = (query: Query): void => {
+    syncBlocker(`cache-query-${query.queryHash}`, resolveQueryBlocker(queryClient, query));
+  };
+
+  const syncMutation = (mutation: Mutation): void => {
+    syncBlocker(`cache-mutation-${String(mutation.mutationId)}`, resolveMutationBlocker(mutation));
+  };
+
+  queryClient.getQueryCache().getAll().forEach(syncQuery);
+  queryClient.getMutationCache().getAll().forEach(syncMutation);
+
+  const unsubscribeQueryCache = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type === "removed") {
+      removeBlocker(`cache-query-${event.query.queryHash}`);
+      return;
+    }
+
+    syncQuery(event.query as Query);
+  });
+
+  const unsubscribeMutationCache = queryClient.getMutationCache().subscribe((event) => {
+    if (!event.mutation) {
+      return;
+    }
+
+    if (event.type === "removed") {
+      removeBlocker(`cache-mutation-${String(event.mutation.mutationId)}`);
+      return;
+    }
+
+    syncMutation(event.mutation as Mutation);
+  });
+
+  return () => {
+    unsubscribeQueryCache();
+    unsubscribeMutationCache();
+    Array.from(registeredBlockers.keys()).forEach(removeBlocker);
+  };
+}
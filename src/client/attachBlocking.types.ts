@@ -0,0 +1,66 @@
+import type { MutationBlockingConfig } from "../hooks/useBlockingMutation.types";
+import type { QueryBlockingConfig } from "../hooks/useBlockingQuery.types";
+import type { BlockingStoreApi } from "../types";
+
+/**
+ * Options for attaching the blocking integration to a QueryClient.
+ */
+export interface AttachBlockingOptions {
+  /**
+   * Store that receives the blockers (default: global `uiBlockingStoreApi`).
+   * Pass a provider store to drive an isolated `UIBlockingProvider` instead.
+   */
+  store?: BlockingStoreApi;
+}
+
+/**
+ * Query blocking configuration read by `attachBlocking`.
+ * The retrying and restoring states are only tracked by the hooks, so those options
+ * of `QueryBlockingConfig` are not supported.
+ */
+export type QueryBlockingMetaConfig = Omit<
+  QueryBlockingConfig,
+  "onRetrying" | "reasonOnRetrying" | "onRestoring" | "reasonOnRestoring"
+>;
+
+/**
+ * Mutation blocking configuration read by `attachBlocking`.
+ * Settling (`waitFor`), per-invocation blockers and the retrying state are only tracked by
+ * `useBlockingMutation`, so those options of `MutationBlockingConfig` are not supported.
+ * Omitted from each member of the union, so `reasonOnError` stays typed by `onError`.
+ */
+export type MutationBlockingMetaConfig = MutationBlockingConfig extends infer TConfig
+  ? TConfig extends unknown
+    ? Omit<
+        TConfig,
+        "waitFor" | "perInvocation" | "onRetrying" | "reasonOnRetrying" | "reasonOnSettling"
+      >
+    : never
+  : never;
+
+/**
+ * Shape of `meta` read from queries by `attachBlocking`.
+ * Can be used to register typed query meta via TanStack Query's `Register` interface.
+ */
+export interface QueryBlockingMeta {
+  /**
+   * Blocking configuration applied while the query is pending, refetching or errored.
+   */
+  blocking?: QueryBlockingMetaConfig;
+}
+
+/**
+ * Shape of `meta` read from mutations by `attachBlocking`.
+ * Can be used to register typed mutation meta via TanStack Query's `Register` interface.
+ */
+export interface MutationBlockingMeta {
+  /**
+   * Blocking configuration applied while the mutation is pending or errored.
+   */
+  blocking?: MutationBlockingMetaConfig;
+}
+
+/**
+ * Stops observing the caches and removes every blocker created by `attachBlocking`.
+ */
+export type DetachBlocking = () => void;
@@ -0,0 +1,26 @@
+export { attachBlocking } from "./attachBlocking";
+export {
+  ensureQueryDataWithBlocking,
+  fetchQueryWithBlocking,
+  prefetchInfiniteQueryWithBlocking,
+} from "./queryLoaders";
+export { invalidateQueriesWithBlocking, refetchQueriesWithBlocking } from "./queryRefetch";
+export type {
+  AttachBlockingOptions,
+  DetachBlocking,
+  MutationBlockingMeta,
+  MutationBlockingMetaConfig,
+  QueryBlockingMeta,
+  QueryBlockingMetaConfig,
+} from "./attachBlocking.types";
+export type {
+  EnsureQueryDataWithBlockingOptions,
+  FetchQueryWithBlockingOptions,
+  ImperativeBlockingOptions,
+  PrefetchInfiniteQueryWithBlockingOptions,
+} from "./queryLoaders.types";
+export type {
+  InvalidateQueriesWithBlockingOptions,
+  RefetchBlockingConfig,
+  RefetchQueriesWithBlockingOptions,
+} from "./queryRefetch.types";
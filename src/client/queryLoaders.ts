@@ -0,0 +1,250 @@
+import { type BlockerConfig, uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { hashKey } from "@tanstack/react-query";
+import { getQueryBlockingState, resolveBlockingReason } from "../utils";
+import { createCallBlockerId, runWithBlocker } from "./runWithBlocker";
+import type { DefaultError, InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import type { InfiniteQueryBlockingConfig } from "../hooks/useBlockingInfiniteQuery.types";
+import type { QueryBlockingConfig, QueryBlockingState } from "../hooks/useBlockingQuery.types";
+import type {
+  EnsureQueryDataWithBlockingOptions,
+  FetchQueryWithBlockingOptions,
+  ImperativeBlockingOptions,
+  PrefetchInfiniteQueryWithBlockingOptions,
+} from "./queryLoaders.types";
+
+/**
+ * Derives the blocker config for an initial load from a query blocking config.
+ * Uses the same defaults as the hooks; returns undefined when loading should not block.
+ * Function reasons receive the cached query state at the start of the load.
+ */
+function resolveLoaderBlocker(
+  blockingConfig: QueryBlockingConfig | InfiniteQueryBlockingConfig | undefined,
+  defaultReason: string,
+  state: QueryBlockingState
+): BlockerConfig | undefined {
+  if (!blockingConfig) {
+    return undefined;
+  }
+
+  const {
+    scope,
+    reason = defaultReason,
+    reasonOnLoading,
+    priority = 10,
+    timeout,
+    onTimeout,
+    onLoading = true,
+  } = blockingConfig;
+
+  if (!onLoading) {
+    return undefined;
+  }
+
+  return {
+    scope,
+    reason: resolveBlockingReason(
+      { defaultReason: reason, stateReasons: [{ condition: true, reason: reasonOnLoading }] },
+      state
+    ),
+    priority,
+    timeout,
+    onTimeout,
+  };
+}
+
+/**
+ * Runs an imperative query operation, blocking for its duration when a config is resolved.
+ */
+function runQueryLoader<TResult>(
+  prefix: string,
+  queryKey: QueryKey,
+  blockerConfig: BlockerConfig | undefined,
+  { store = uiBlockingStoreApi }: ImperativeBlockingOptions,
+  run: () => Promise<TResult>
+): Promise<TResult> {
+  if (!blockerConfig) {
+    return run();
+  }
+
+  return runWithBlocker(store, createCallBlockerId(prefix, hashKey(queryKey)), blockerConfig, run);
+}
+
+/**
+ * `queryClient.fetchQuery` that blocks the UI until the query resolves or fails.
+ *
+ * Intended for code outside React, such as router loaders. The blocker is registered for the
+ * duration of the promise and removed in `finally`; `timeout`/`onTimeout` behave like in the hooks.
+ * Uses `reasonOnLoading` (or `reason`) and the same defaults as `useBlockingQuery`
+ * ("Loading data...", priority 10). Setting `onLoading: false` disables blocking.
+ *
+ * @param queryClient - QueryClient used to fetch the query
+ * @param options - `fetchQuery` options (a bundled `blockingConfig` is used as fallback)
+ * @param blockingConfig - Blocking configuration (default: `options.blockingConfig`)
+ * @param imperativeOptions - Imperative options
+ * @param imperativeOptions.store - Store that receives the blocker (default: global store)
+ * @returns The promise returned by `fetchQuery`
+ *
+ * @example
+ * ```ts
+ * export async function userLoader({ params }: LoaderFunctionArgs) {
+ *   return fetchQueryWithBlocking(
+ *     queryClient,
+ *     { queryKey: ['user', params.id], queryFn: () => fetchUser(params.id) },
+ *     { scope: 'navigation', reasonOnLoading: 'Loading user...' }
+ *   );
+ * }
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function fetchQueryWithBlocking<
+  TQueryFnData,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  queryClient: QueryClient,
+  options: FetchQueryWithBlockingOptions<TQueryFnData, TError, TData, TQueryKey>,
+  blockingConfig: QueryBlockingConfig<TData, TError> | undefined = options.blockingConfig,
+  imperativeOptions: ImperativeBlockingOptions = {}
+): Promise<TData> {
+  const { blockingConfig: _bundledConfig, ...queryOptions } = options;
+
+  return runQueryLoader(
+    "fetch-query",
+    options.queryKey,
+    resolveLoaderBlocker(
+      blockingConfig as QueryBlockingConfig | undefined,
+      "Loading data...",
+      getQueryBlockingState(queryClient.getQueryState(options.queryKey))
+    ),
+    imperativeOptions,
+    () => queryClient.fetchQuery(queryOptions)
+  );
+}
+
+/**
+ * `queryClient.ensureQueryData` that blocks the UI while the data has to be fetched.
+ *
+ * Cached data is returned without registering a blocker; only a cache miss blocks until the
+ * query resolves or fails. Background revalidation (`revalidateIfStale`) never blocks.
+ * Uses the same defaults as `useBlockingQuery` ("Loading data...", priority 10).
+ *
+ * @param queryClient - QueryClient used to load the query
+ * @param options - `ensureQueryData` options (a bundled `blockingConfig` is used as fallback)
+ * @param blockingConfig - Blocking configuration (default: `options.blockingConfig`)
+ * @param imperativeOptions - Imperative options
+ * @param imperativeOptions.store - Store that receives the blocker (default: global store)
+ * @returns The promise returned by `ensureQueryData`
+ *
+ * @example
+ * ```ts
+ * const userOptions = (id: string) =>
+ *   blockingQueryOptions({
+ *     queryKey: ['user', id],
+ *     queryFn: () => fetchUser(id),
+ *     blockingConfig: { scope: 'navigation', reasonOnLoading: 'Loading user...' },
+ *   });
+ *
+ * export const loader = ({ params }: LoaderFunctionArgs) =>
+ *   ensureQueryDataWithBlocking(queryClient, userOptions(params.id));
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function ensureQueryDataWithBlocking<
+  TQueryFnData,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  queryClient: QueryClient,
+  options: EnsureQueryDataWithBlockingOptions<TQueryFnData, TError, TData, TQueryKey>,
+  blockingConfig: QueryBlockingConfig<TData, TError> | undefined = options.blockingConfig,
+  imperativeOptions: ImperativeBlockingOptions = {}
+): Promise<TData> {
+  const { blockingConfig: _bundledConfig, ...queryOptions } = options;
+  const queryState = queryClient.getQueryState(options.queryKey);
+  const isCached = queryState?.data !== undefined;
+
+  return runQueryLoader(
+    "ensure-query",
+    options.queryKey,
+    isCached
+      ? undefined
+      : resolveLoaderBlocker(
+          blockingConfig as QueryBlockingConfig | undefined,
+          "Loading data...",
+          getQueryBlockingState(queryState)
+        ),
+    imperativeOptions,
+    () => queryClient.ensureQueryData(queryOptions)
+  );
+}
+
+/**
+ * `queryClient.prefetchInfiniteQuery` that blocks the UI until the first pages are loaded.
+ *
+ * Uses the same defaults as `useBlockingInfiniteQuery` ("Loading more data...", priority 10).
+ * Like `prefetchInfiniteQuery`, the returned promise never rejects.
+ *
+ * @param queryClient - QueryClient used to prefetch the query
+ * @param options - `prefetchInfiniteQuery` options (a bundled `blockingConfig` is used as fallback)
+ * @param blockingConfig - Blocking configuration (default: `options.blockingConfig`)
+ * @param imperativeOptions - Imperative options
+ * @param imperativeOptions.store - Store that receives the blocker (default: global store)
+ * @returns The promise returned by `prefetchInfiniteQuery`
+ *
+ * @example
+ * ```ts
+ * export const feedLoader = () =>
+ *   prefetchInfiniteQueryWithBlocking(
+ *     queryClient,
+ *     {
+ *       queryKey: ['feed'],
+ *       queryFn: ({ pageParam }) => fetchFeed(pageParam),
+ *       initialPageParam: 0,
+ *     },
+ *     { scope: 'navigation', reasonOnLoading: 'Loading feed...' }
+ *   );
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function prefetchInfiniteQueryWithBlocking<
+  TQueryFnData,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  queryClient: QueryClient,
+  options: PrefetchInfiniteQueryWithBlockingOptions<
+    TQueryFnData,
+    TError,
+    TData,
+    TQueryKey,
+    TPageParam
+  >,
+  blockingConfig:
+    | InfiniteQueryBlockingConfig<InfiniteData<TQueryFnData, TPageParam>, TError>
+    | undefined = options.blockingConfig,
+  imperativeOptions: ImperativeBlockingOptions = {}
+): Promise<void> {
+  const { blockingConfig: _bundledConfig, ...queryOptions } = options;
+
+  return runQueryLoader(
+    "prefetch-infinite-query",
+    options.queryKey,
+    resolveLoaderBlocker(
+      blockingConfig as InfiniteQueryBlockingConfig | undefined,
+      "Loading more data...",
+      getQueryBlockingState(queryClient.getQueryState(options.queryKey))
+    ),
+    imperativeOptions,
+    () => queryClient.prefetchInfiniteQuery(queryOptions)
+  );
+}
@@ -0,0 +1,64 @@
+import type {
+  DefaultError,
+  EnsureQueryDataOptions,
+  FetchInfiniteQueryOptions,
+  FetchQueryOptions,
+  InfiniteData,
+  QueryKey,
+} from "@tanstack/react-query";
+import type { InfiniteQueryBlockingConfig } from "../hooks/useBlockingInfiniteQuery.types";
+import type { QueryBlockingConfig } from "../hooks/useBlockingQuery.types";
+import type { BlockingStoreApi } from "../types";
+
+/**
+ * Options shared by the imperative blocking functions.
+ */
+export interface ImperativeBlockingOptions {
+  /**
+   * Store that receives the blocker (default: global `uiBlockingStoreApi`).
+   * Pass a provider store to drive an isolated `UIBlockingProvider` instead.
+   */
+  store?: BlockingStoreApi;
+}
+
+/**
+ * Options for fetchQueryWithBlocking.
+ * Accepts `blockingQueryOptions` objects; a bundled `blockingConfig` is used when no
+ * explicit config is passed.
+ */
+export type FetchQueryWithBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = FetchQueryOptions<TQueryFnData, TError, TData, TQueryKey> & {
+  blockingConfig?: QueryBlockingConfig<TData, TError>;
+};
+
+/**
+ * Options for ensureQueryDataWithBlocking.
+ * Accepts `blockingQueryOptions` objects; a bundled `blockingConfig` is used when no
+ * explicit config is passed.
+ */
+export type EnsureQueryDataWithBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = EnsureQueryDataOptions<TQueryFnData, TError, TData, TQueryKey> & {
+  blockingConfig?: QueryBlockingConfig<TData, TError>;
+};
+
+/**
+ * Options for prefetchInfiniteQueryWithBlocking.
+ * A bundled `blockingConfig` is used when no explicit config is passed.
+ */
+export type PrefetchInfiniteQueryWithBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+> = FetchInfiniteQueryOptions<TQueryFnData, TError, TData, TQueryKey, TPageParam> & {
+  blockingConfig?: InfiniteQueryBlockingConfig<InfiniteData<TQueryFnData, TPageParam>, TError>;
+};
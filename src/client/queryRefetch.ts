@@ -0,0 +1,118 @@
+import { type BlockerConfig, uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { hashKey } from "@tanstack/react-query";
+import { createCallBlockerId, runWithBlocker } from "./runWithBlocker";
+import type {
+  InvalidateQueryFilters,
+  QueryClient,
+  QueryFilters,
+  RefetchQueryFilters,
+} from "@tanstack/react-query";
+import type {
+  InvalidateQueriesWithBlockingOptions,
+  RefetchBlockingConfig,
+  RefetchQueriesWithBlockingOptions,
+} from "./queryRefetch.types";
+
+/**
+ * Derives the blocker config for a refetch. Uses the same defaults as `useBlockingQuery`
+ * refetches ("Refreshing data...", priority 10).
+ */
+function resolveRefetchBlocker({
+  scope,
+  reason = "Refreshing data...",
+  reasonOnRefetch,
+  priority = 10,
+  timeout,
+  onTimeout,
+}: RefetchBlockingConfig): BlockerConfig {
+  return { scope, reason: reasonOnRefetch ?? reason, priority, timeout, onTimeout };
+}
+
+function createFiltersBlockerId(prefix: string, filters: QueryFilters | undefined): string {
+  return createCallBlockerId(prefix, hashKey(filters?.queryKey ?? []));
+}
+
+/**
+ * `queryClient.invalidateQueries` that keeps a scope blocked until the triggered refetches settle.
+ *
+ * Useful after a save: the mutation unblocks when the request finishes, while the affected
+ * scope stays blocked until fresh data is in the cache. The blocker is removed in `finally`;
+ * `timeout`/`onTimeout` behave like in the hooks.
+ *
+ * @param queryClient - QueryClient whose queries should be invalidated
+ * @param filters - Filters selecting the queries (same as `invalidateQueries`)
+ * @param blockingConfig - Blocking configuration
+ * @param blockingConfig.reasonOnRefetch - Reason while refetching (falls back to `reason`)
+ * @param options - `invalidateQueries` options plus `store` (default: global store)
+ * @returns The promise returned by `invalidateQueries`
+ *
+ * @example
+ * ```ts
+ * const mutation = useBlockingMutation({
+ *   mutationFn: saveOrder,
+ *   blockingConfig: { scope: 'order-form' },
+ *   onSuccess: () =>
+ *     invalidateQueriesWithBlocking(
+ *       queryClient,
+ *       { queryKey: ['orders'] },
+ *       { scope: 'orders-table', reasonOnRefetch: 'Refreshing orders...' }
+ *     ),
+ * });
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function invalidateQueriesWithBlocking(
+  queryClient: QueryClient,
+  filters: InvalidateQueryFilters | undefined,
+  blockingConfig: RefetchBlockingConfig,
+  options: InvalidateQueriesWithBlockingOptions = {}
+): Promise<void> {
+  const { store = uiBlockingStoreApi, ...invalidateOptions } = options;
+
+  return runWithBlocker(
+    store,
+    createFiltersBlockerId("invalidate-queries", filters),
+    resolveRefetchBlocker(blockingConfig),
+    () => queryClient.invalidateQueries(filters, invalidateOptions)
+  );
+}
+
+/**
+ * `queryClient.refetchQueries` that keeps a scope blocked until the refetches settle.
+ *
+ * @param queryClient - QueryClient whose queries should be refetched
+ * @param filters - Filters selecting the queries (same as `refetchQueries`)
+ * @param blockingConfig - Blocking configuration
+ * @param blockingConfig.reasonOnRefetch - Reason while refetching (falls back to `reason`)
+ * @param options - `refetchQueries` options plus `store` (default: global store)
+ * @returns The promise returned by `refetchQueries`
+ *
+ * @example
+ * ```ts
+ * await refetchQueriesWithBlocking(
+ *   queryClient,
+ *   { queryKey: ['dashboard'], type: 'active' },
+ *   { scope: 'dashboard', reasonOnRefetch: 'Refreshing dashboard...' }
+ * );
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function refetchQueriesWithBlocking(
+  queryClient: QueryClient,
+  filters: RefetchQueryFilters | undefined,
+  blockingConfig: RefetchBlockingConfig,
+  options: RefetchQueriesWithBlockingOptions = {}
+): Promise<void> {
+  const { store = uiBlockingStoreApi, ...refetchOptions } = options;
+
+  return runWithBlocker(
+    store,
+    createFiltersBlockerId("refetch-queries", filters),
+    resolveRefetchBlocker(blockingConfig),
+    () => queryClient.refetchQueries(filters, refetchOptions)
+  );
+}
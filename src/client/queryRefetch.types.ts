@@ -0,0 +1,30 @@
+import type { InvalidateOptions, RefetchOptions } from "@tanstack/react-query";
+import type { BaseBlockingConfig } from "../types";
+import type { ImperativeBlockingOptions } from "./queryLoaders.types";
+
+/**
+ * Configuration for blocking while invalidated or refetched queries settle.
+ */
+export interface RefetchBlockingConfig extends BaseBlockingConfig {
+  /**
+   * Message to show while the matching queries refetch.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnRefetch?: string;
+}
+
+/**
+ * Options for invalidateQueriesWithBlocking.
+ * Combines TanStack Query's `InvalidateOptions` with the imperative blocking options.
+ */
+export interface InvalidateQueriesWithBlockingOptions
+  extends InvalidateOptions,
+    ImperativeBlockingOptions {}
+
+/**
+ * Options for refetchQueriesWithBlocking.
+ * Combines TanStack Query's `RefetchOptions` with the imperative blocking options.
+ */
+export interface RefetchQueriesWithBlockingOptions
+  extends RefetchOptions,
+    ImperativeBlockingOptions {}
@@ -0,0 +1,47 @@
+import { createBlockerLifecycle } from "../internal";
+import type { BlockerConfig } from "@okyrychenko-dev/react-action-guard";
+import type { BlockingStoreApi } from "../types";
+
+let blockerSequence = 0;
+
+/**
+ * Creates a blocker ID that is unique per call, so concurrent calls for the same key
+ * never remove each other's blockers.
+ *
+ * @param prefix - Prefix describing the operation (e.g. "fetch-query")
+ * @param key - Stable part of the ID (e.g. a query hash)
+ * @returns Unique blocker ID
+ */
+export function createCallBlockerId(prefix: string, key: string): string {
+  blockerSequence += 1;
+  return `${prefix}-${key}-${String(blockerSequence)}`;
+}
+
+/**
+ * Keeps a blocker registered for the duration of a promise.
+ *
+ * The blocker is added before `run` starts and removed in `finally`, whether the promise
+ * resolves or rejects. `timeout`/`onTimeout` are handled by the store, as with the hooks;
+ * removing a blocker that already timed out is a no-op.
+ *
+ * @param store - Store that receives the blocker
+ * @param blockerId - Unique blocker ID
+ * @param config - Blocker configuration
+ * @param run - Operation to block for
+ * @returns The promise returned by `run`
+ */
+export async function runWithBlocker<TResult>(
+  store: BlockingStoreApi,
+  blockerId: string,
+  config: BlockerConfig,
+  run: () => Promise<TResult>
+): Promise<TResult> {
+  const lifecycle = createBlockerLifecycle(store, blockerId);
+  lifecycle.sync(true, config);
+
+  try {
+    return await run();
+  } finally {
+    lifecycle.release();
+  }
+}
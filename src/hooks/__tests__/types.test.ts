@@ -1,9 +1,19 @@
 import { expect, it } from "vitest";
+import { blockingMutationOptions } from "../../options/blockingMutationOptions";
+import { blockingQueryOptions } from "../../options/blockingQueryOptions";
 import { useBlockingInfiniteQuery } from "../useBlockingInfiniteQuery";
 import { useBlockingMutation } from "../useBlockingMutation";
 import { useBlockingQueries } from "../useBlockingQueries";
 import { useBlockingQuery } from "../useBlockingQuery";
-import type { InfiniteData, UseQueryResult } from "@tanstack/react-query";
+import { useBlockingSuspenseInfiniteQuery } from "../useBlockingSuspenseInfiniteQuery";
+import { useBlockingSuspenseQueries } from "../useBlockingSuspenseQueries";
+import { useBlockingSuspenseQuery } from "../useBlockingSuspenseQuery";
+import type {
+  InfiniteData,
+  QueryClient,
+  UseQueryResult,
+  UseSuspenseQueryResult,
+} from "@tanstack/react-query";
 
 type IsEqual<A, B> =
   (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
@@ -32,6 +42,42 @@ it("preserves query select inference", () => {
   assertType<IsEqual<QueryResult["data"], string | undefined>>();
 });
 
+it("preserves suspense query select inference with defined data", () => {
+  function useTypedSuspenseQuery() {
+    return useBlockingSuspenseQuery({
+      queryKey: tuple("user"),
+      queryFn: async () => ({ id: 1, name: "Ada" }),
+      select: (data) => data.name,
+      blockingConfig: {
+        scope: "suspense-query",
+      },
+    });
+  }
+
+  type SuspenseQueryResult = ReturnType<typeof useTypedSuspenseQuery>;
+
+  assertType<IsEqual<SuspenseQueryResult, UseSuspenseQueryResult<string>>>();
+  assertType<IsEqual<SuspenseQueryResult["data"], string>>();
+});
+
+it("infers suspense query error type from the options", () => {
+  class ApiError extends Error {
+    status = 500;
+  }
+
+  function useTypedSuspenseQuery() {
+    return useBlockingSuspenseQuery<{ id: number }, ApiError>({
+      queryKey: tuple("user", 1),
+      queryFn: async () => ({ id: 1 }),
+    });
+  }
+
+  type SuspenseQueryResult = ReturnType<typeof useTypedSuspenseQuery>;
+
+  assertType<IsEqual<SuspenseQueryResult["data"], { id: number }>>();
+  assertType<IsEqual<SuspenseQueryResult["error"], ApiError | null>>();
+});
+
 it("preserves infinite query data shape", () => {
   function useTypedInfiniteQuery() {
     return useBlockingInfiniteQuery({
@@ -82,6 +128,38 @@ it("preserves mutation variable and result inference", () => {
   assertType<IsEqual<MutationResult["variables"], { id: string } | undefined>>();
 });
 
+it("types function reasons from the hook options", () => {
+  function useTypedReasons() {
+    useBlockingQuery({
+      queryKey: tuple("user"),
+      queryFn: async () => ({ id: 1, name: "Ada" }),
+      select: (data: { id: number; name: string }) => data.name,
+      blockingConfig: {
+        reasonOnFetching: (query) => {
+          assertType<IsEqual<typeof query.data, string | undefined>>();
+          return "Refreshing user...";
+        },
+      },
+    });
+
+    return useBlockingMutation({
+      mutationFn: async (variables: { id: string }) => variables.id,
+      blockingConfig: {
+        reasonOnPending: (mutation) => {
+          assertType<IsEqual<typeof mutation.variables, { id: string } | undefined>>();
+          return "Saving...";
+        },
+      },
+    });
+  }
+
+  assertType<
+    IsEqual<Parameters<ReturnType<typeof useTypedReasons>["mutate"]>[0], { id: string }>
+  >();
+
+  expect(true).toBe(true);
+});
+
 it("preserves tuple inference for parallel queries", () => {
   function useTypedQueries() {
     return useBlockingQueries(
@@ -109,3 +187,138 @@ it("preserves tuple inference for parallel queries", () => {
 
   expect(true).toBe(true);
 });
+
+it("preserves tuple inference with per-query blocking configs", () => {
+  function useTypedQueries() {
+    return useBlockingQueries(
+      tuple(
+        {
+          queryKey: tuple("user"),
+          queryFn: async () => ({ id: 1, name: "Ada" }),
+          select: (data: { id: number; name: string }) => data.name,
+          blockingConfig: { scope: "profile-panel" },
+        },
+        {
+          queryKey: tuple("posts"),
+          queryFn: async () => [{ id: 1, title: "Hello" }],
+        }
+      )
+    );
+  }
+
+  type QueryResults = ReturnType<typeof useTypedQueries>;
+
+  assertType<IsEqual<QueryResults[0]["data"], string | undefined>>();
+  assertType<IsEqual<QueryResults[1]["data"], Array<{ id: number; title: string }> | undefined>>();
+
+  expect(true).toBe(true);
+});
+
+it("preserves tuple inference for parallel suspense queries", () => {
+  function useTypedSuspenseQueries() {
+    return useBlockingSuspenseQueries(
+      tuple(
+        {
+          queryKey: tuple("user"),
+          queryFn: async () => ({ id: 1, name: "Ada" }),
+          select: (data: { id: number; name: string }) => data.name,
+        },
+        {
+          queryKey: tuple("posts"),
+          queryFn: async () => [{ id: 1, title: "Hello" }],
+        }
+      ),
+      {
+        scope: "queries",
+      }
+    );
+  }
+
+  type QueryResults = ReturnType<typeof useTypedSuspenseQueries>;
+
+  assertType<IsEqual<QueryResults[0]["data"], string>>();
+  assertType<IsEqual<QueryResults[1]["data"], Array<{ id: number; title: string }>>>();
+
+  expect(true).toBe(true);
+});
+
+it("preserves suspense infinite query page typing", () => {
+  function useTypedSuspenseInfiniteQuery() {
+    return useBlockingSuspenseInfiniteQuery({
+      queryKey: ["feed"],
+      queryFn: async ({ pageParam }: { pageParam: number }) => ({
+        items: [pageParam],
+        nextCursor: pageParam + 1,
+      }),
+      initialPageParam: 0,
+      getNextPageParam: (lastPage: { items: Array<number>; nextCursor: number }) =>
+        lastPage.nextCursor,
+      blockingConfig: {
+        scope: "feed",
+      },
+    });
+  }
+
+  type InfiniteResult = ReturnType<typeof useTypedSuspenseInfiniteQuery>;
+
+  assertType<
+    IsEqual<InfiniteResult["data"], InfiniteData<{ items: Array<number>; nextCursor: number }>>
+  >();
+
+  expect(true).toBe(true);
+});
+
+it("preserves the data tag of blockingQueryOptions", () => {
+  const userOptions = blockingQueryOptions({
+    queryKey: ["user", 1],
+    queryFn: async () => ({ id: 1, name: "Ada" }),
+    blockingConfig: {
+      scope: "profile",
+    },
+  });
+
+  function getCachedUser(queryClient: QueryClient) {
+    return queryClient.getQueryData(userOptions.queryKey);
+  }
+
+  function useTypedOptionsQuery() {
+    return useBlockingQuery(userOptions);
+  }
+
+  function useTypedOptionsSuspenseQuery() {
+    return useBlockingSuspenseQuery(userOptions);
+  }
+
+  assertType<IsEqual<ReturnType<typeof getCachedUser>, { id: number; name: string } | undefined>>();
+  assertType<
+    IsEqual<
+      ReturnType<typeof useTypedOptionsQuery>["data"],
+      { id: number; name: string } | undefined
+    >
+  >();
+  assertType<
+    IsEqual<ReturnType<typeof useTypedOptionsSuspenseQuery>["data"], { id: number; name: string }>
+  >();
+
+  expect(true).toBe(true);
+});
+
+it("preserves variables of blockingMutationOptions", () => {
+  const saveOptions = blockingMutationOptions({
+    mutationKey: ["user", "save"],
+    mutationFn: async (user: { name: string }) => ({ ok: true as const, ...user }),
+    blockingConfig: {
+      scope: "profile-form",
+    },
+  });
+
+  function useTypedOptionsMutation() {
+    return useBlockingMutation(saveOptions);
+  }
+
+  type MutationResult = ReturnType<typeof useTypedOptionsMutation>;
+
+  assertType<IsEqual<Parameters<MutationResult["mutate"]>[0], { name: string }>>();
+
+  expect(true).toBe(true);
+});
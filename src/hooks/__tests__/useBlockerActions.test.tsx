@@ -0,0 +1,414 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { useBlockerActions } from "../useBlockerActions";
+import { useBlockingMutation } from "../useBlockingMutation";
+import { useBlockingQueries } from "../useBlockingQueries";
+import { useBlockingQuery } from "../useBlockingQuery";
+import { useBlockingSuspenseQueries } from "../useBlockingSuspenseQueries";
+
+describe("useBlockerActions", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should return undefined when the scope is not blocked", () => {
+    const { result } = renderHook(() => useBlockerActions("test"), {
+      wrapper: createWrapper(),
+    });
+
+    expect(result.current).toBeUndefined();
+  });
+
+  it("should cancel and retry the query behind the blocker", async () => {
+    const signals: Array<AbortSignal> = [];
+    const queryFn = vi.fn().mockImplementation((context: { signal: AbortSignal }) => {
+      signals.push(context.signal);
+      return new Promise(() => undefined);
+    });
+
+    const { result } = renderHook(
+      () => {
+        const query = useBlockingQuery({
+          queryKey: ["actions"],
+          queryFn,
+          blockingConfig: { scope: "test", reasonOnLoading: "Loading report..." },
+        });
+
+        return { query, blocker: useBlockerActions("test") };
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.blocker?.reason).toBe("Loading report...");
+    });
+
+    const actions = result.current.blocker;
+
+    act(() => {
+      actions?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(result.current.query.fetchStatus).toBe("idle");
+    });
+    expect(signals[0]?.aborted).toBe(true);
+    expect(result.current.query.isPending).toBe(true);
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    act(() => {
+      actions?.retry?.();
+    });
+
+    await waitFor(() => {
+      expect(result.current.blocker?.reason).toBe("Loading report...");
+    });
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should block again on the next fetch after a cancel", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () => {
+        const query = useBlockingQuery({
+          queryKey: ["actions-refetch"],
+          queryFn,
+          blockingConfig: { scope: "test" },
+        });
+
+        return { query, blocker: useBlockerActions("test") };
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.blocker).toBeDefined();
+    });
+
+    act(() => {
+      result.current.blocker?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(result.current.blocker).toBeUndefined();
+    });
+
+    act(() => {
+      void result.current.query.refetch();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+  });
+
+  it("should reset or re-run the mutation with its last variables", async () => {
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValueOnce("saved");
+
+    const { result } = renderHook(
+      () => {
+        const mutation = useBlockingMutation({
+          mutationFn,
+          blockingConfig: { scope: "test", onError: true, reasonOnError: "Save failed" },
+        });
+
+        return { mutation, blocker: useBlockerActions("test") };
+      },
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutation.mutate({ id: 1 });
+
+    await waitFor(() => {
+      expect(result.current.blocker?.reason).toBe("Save failed");
+    });
+
+    act(() => {
+      result.current.blocker?.retry?.();
+    });
+
+    await waitFor(() => {
+      expect(result.current.mutation.isSuccess).toBe(true);
+    });
+    expect(mutationFn).toHaveBeenLastCalledWith({ id: 1 }, expect.anything());
+    expect(result.current.blocker).toBeUndefined();
+
+    mutationFn.mockRejectedValueOnce(new Error("Network error"));
+    result.current.mutation.mutate({ id: 2 });
+
+    await waitFor(() => {
+      expect(result.current.blocker?.reason).toBe("Save failed");
+    });
+
+    act(() => {
+      result.current.blocker?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(result.current.mutation.isIdle).toBe(true);
+    });
+    expect(result.current.blocker).toBeUndefined();
+  });
+
+  it("should dismiss or re-submit a per-invocation mutation blocker", async () => {
+    const mutationFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () => {
+        const mutation = useBlockingMutation({
+          mutationFn,
+          blockingConfig: { scope: "test", perInvocation: true },
+        });
+
+        return { mutation, blocker: useBlockerActions("test") };
+      },
+      { wrapper: createWrapper() }
+    );
+
+    act(() => {
+      result.current.mutation.mutate({ id: 1 });
+    });
+
+    await waitFor(() => {
+      expect(result.current.blocker?.retry).toBeDefined();
+    });
+
+    act(() => {
+      result.current.blocker?.retry?.();
+    });
+
+    await waitFor(() => {
+      expect(mutationFn).toHaveBeenCalledTimes(2);
+    });
+    expect(mutationFn).toHaveBeenLastCalledWith({ id: 1 }, expect.anything());
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().getBlockingInfo("test")).toHaveLength(1);
+    });
+
+    act(() => {
+      result.current.blocker?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+    expect(result.current.mutation.isPending).toBe(true);
+  });
+
+  it("should cancel and refetch every query behind the useBlockingQueries blocker", async () => {
+    const signals: Array<AbortSignal> = [];
+    const queryFn = vi.fn().mockImplementation((context: { signal: AbortSignal }) => {
+      signals.push(context.signal);
+      return new Promise(() => undefined);
+    });
+
+    const { result } = renderHook(
+      () => {
+        useBlockingQueries(
+          [
+            { queryKey: ["queries-a"], queryFn },
+            { queryKey: ["queries-b"], queryFn },
+          ],
+          { scope: "test" }
+        );
+
+        return useBlockerActions("test");
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current?.cancel).toBeDefined();
+    });
+
+    const actions = result.current;
+
+    act(() => {
+      actions?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+
+    act(() => {
+      actions?.retry?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+    expect(queryFn).toHaveBeenCalledTimes(4);
+  });
+
+  it("should cancel only the query behind a useBlockingQueries entry blocker", async () => {
+    const { result } = renderHook(
+      () => {
+        useBlockingQueries(
+          [
+            {
+              queryKey: ["entry-a"],
+              queryFn: () => new Promise(() => undefined),
+              blockingConfig: { scope: "entry" },
+            },
+            { queryKey: ["entry-b"], queryFn: () => new Promise(() => undefined) },
+          ],
+          { scope: "test" }
+        );
+
+        return useBlockerActions("entry");
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current?.cancel).toBeDefined();
+    });
+
+    act(() => {
+      result.current?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("entry")).toBe(false);
+    });
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+  });
+
+  it("should keep useBlockingQueries actions stable across renders", async () => {
+    const { result, rerender } = renderHook(
+      () => {
+        useBlockingQueries(
+          [
+            {
+              queryKey: ["stable-a"],
+              queryFn: () => new Promise(() => undefined),
+              blockingConfig: { scope: "entry" },
+            },
+          ],
+          { scope: "test" }
+        );
+
+        return { shared: useBlockerActions("test"), entry: useBlockerActions("entry") };
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.shared?.cancel).toBeDefined();
+      expect(result.current.entry?.cancel).toBeDefined();
+    });
+
+    const { shared, entry } = result.current;
+    rerender();
+
+    expect(result.current.shared?.cancel).toBe(shared?.cancel);
+    expect(result.current.entry?.cancel).toBe(entry?.cancel);
+  });
+
+  it("should cancel and refetch the useBlockingSuspenseQueries blocker", async () => {
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("data")
+      .mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () => {
+        const [query] = useBlockingSuspenseQueries([{ queryKey: ["suspense-actions"], queryFn }], {
+          scope: "test",
+          onFetching: true,
+        });
+
+        return { query, blocker: useBlockerActions("test") };
+      },
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe("data");
+    });
+
+    act(() => {
+      void result.current.query.refetch();
+    });
+
+    await waitFor(() => {
+      expect(result.current.blocker?.cancel).toBeDefined();
+    });
+
+    const actions = result.current.blocker;
+
+    act(() => {
+      actions?.cancel?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+    expect(result.current.query.data).toBe("data");
+
+    act(() => {
+      actions?.retry?.();
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+    expect(queryFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should return the actions of the top-priority blocker", async () => {
+    const { result } = renderHook(
+      () => {
+        useBlockingQuery({
+          queryKey: ["low-priority"],
+          queryFn: () => new Promise(() => undefined),
+          blockingConfig: { scope: "test", priority: 10 },
+        });
+
+        return useBlockerActions("test");
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current?.cancel).toBeDefined();
+    });
+
+    act(() => {
+      uiBlockingStoreApi
+        .getState()
+        .addBlocker("manual", { scope: "test", reason: "Manual", priority: 90 });
+    });
+
+    expect(result.current).toEqual({ blockerId: "manual", reason: "Manual" });
+  });
+
+  it("should read actions from the nearest UIBlockingProvider store", async () => {
+    const { result } = renderHook(
+      () => {
+        useBlockingQuery({
+          queryKey: ["isolated"],
+          queryFn: () => new Promise(() => undefined),
+          blockingConfig: { scope: "test" },
+        });
+
+        return useBlockerActions("test");
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current?.retry).toBeDefined();
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+});
@@ -1,7 +1,8 @@
-import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { uiBlockingStoreApi, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
 import { renderHook, waitFor } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { createWrapper } from "../../test/test.utils";
+import { BlockingTimeoutError } from "../../utils";
 import { useBlockingInfiniteQuery } from "../useBlockingInfiniteQuery";
 import { InfiniteQueryBlockingConfig } from "../useBlockingInfiniteQuery.types";
 
@@ -401,4 +402,251 @@ describe("useBlockingInfiniteQuery", () => {
 
     expect(uiBlockingStoreApi.getState().getBlockingInfo("test")).toHaveLength(0);
   });
+
+  it("should register blockers in the nearest UIBlockingProvider store", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const first = renderHook(
+      () => {
+        useBlockingInfiniteQuery({
+          queryKey: ["isolated", "first"],
+          queryFn,
+          initialPageParam: 1,
+          getNextPageParam: () => undefined,
+          blockingConfig: { scope: "first" },
+        });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    const second = renderHook(
+      () => {
+        useBlockingInfiniteQuery({
+          queryKey: ["isolated", "second"],
+          queryFn,
+          initialPageParam: 1,
+          getNextPageParam: () => undefined,
+          blockingConfig: { scope: "second" },
+        });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    await waitFor(() => {
+      expect(first.result.current.getState().isBlocked("first")).toBe(true);
+      expect(second.result.current.getState().isBlocked("second")).toBe(true);
+    });
+
+    expect(first.result.current.getState().isBlocked("second")).toBe(false);
+    expect(second.result.current.getState().isBlocked("first")).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked(["first", "second"])).toBe(false);
+
+    first.unmount();
+    second.unmount();
+  });
+
+  it("should pass loaded pages to function reasons", async () => {
+    let resolveNextPage: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("page-0")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveNextPage = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingInfiniteQuery({
+          queryKey: ["function-reason"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: (_lastPage, pages) => pages.length,
+          blockingConfig: {
+            scope: "test",
+            onFetching: true,
+            reasonOnFetching: (query) =>
+              `Loading page ${String((query.data?.pageParams.length ?? 0) + 1)}...`,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading page 2...");
+    });
+
+    resolveNextPage?.("page-1");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should block the next page scope only while loading the next page", async () => {
+    let resolvePage: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("page-0")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolvePage = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingInfiniteQuery({
+          queryKey: ["directions"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: (_lastPage, pages) => pages.length,
+          blockingConfig: {
+            scope: "list",
+            onFetchingNextPage: true,
+            scopeOnFetchingNextPage: "list-footer",
+            reasonOnFetching: "Loading...",
+            reasonOnFetchingNextPage: "Loading more...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("list-footer");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading more...");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("list")).toBe(false);
+
+    resolvePage?.("page-1");
+
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(2);
+    });
+
+    // onRefetching is not enabled, so refetching all pages does not block
+    void result.current.refetch();
+
+    await waitFor(() => {
+      expect(result.current.isRefetching).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("list")).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked("list-footer")).toBe(false);
+  });
+
+  it("should let direction toggles override the onFetching shorthand", async () => {
+    let resolveRefetch: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("page-0")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRefetch = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingInfiniteQuery({
+          queryKey: ["shorthand"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: (_lastPage, pages) => pages.length,
+          blockingConfig: {
+            scope: "test",
+            onFetching: true,
+            onFetchingNextPage: false,
+            reasonOnRefetching: "Refreshing...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      expect(result.current.isFetchingNextPage).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    resolveRefetch?.("page-1");
+
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(2);
+    });
+
+    void result.current.refetch();
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Refreshing...");
+    });
+  });
+
+  it("should keep loaded pages when a timed-out next page fails the query", async () => {
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("page-0")
+      .mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingInfiniteQuery({
+          queryKey: ["timeout"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: (_lastPage, pages) => pages.length,
+          blockingConfig: {
+            scope: "test",
+            onFetching: true,
+            timeout: 50,
+            onTimeoutAction: "error",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(result.current.error).toBeInstanceOf(BlockingTimeoutError);
+    expect(result.current.data?.pages).toEqual(["page-0"]);
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
 });
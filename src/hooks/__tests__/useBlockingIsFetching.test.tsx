@@ -0,0 +1,75 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useQuery } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import { useBlockingIsFetching } from "../useBlockingIsFetching";
+
+describe("useBlockingIsFetching", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while matching queries are fetching and report the count", async () => {
+    const queryClient = createTestQueryClient();
+    const resolvers: Array<(value: string) => void> = [];
+    const queryFn = () =>
+      new Promise<string>((resolve) => {
+        resolvers.push(resolve);
+      });
+
+    const { result } = renderHook(
+      () => {
+        useQuery({ queryKey: ["orders", 1], queryFn });
+        useQuery({ queryKey: ["orders", 2], queryFn });
+        useQuery({ queryKey: ["users"], queryFn });
+        return useBlockingIsFetching(
+          { queryKey: ["orders"] },
+          { scope: "toolbar", reason: "Syncing {count} orders..." }
+        );
+      },
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current).toBe(2);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("toolbar");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Syncing 2 orders...");
+      expect(info[0]?.priority).toBe(10);
+    });
+
+    resolvers[0]?.("first");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().getBlockingInfo("toolbar")[0]?.reason).toBe(
+        "Syncing 1 orders..."
+      );
+    });
+
+    resolvers.forEach((resolve) => {
+      resolve("done");
+    });
+
+    await waitFor(() => {
+      expect(result.current).toBe(0);
+      expect(uiBlockingStoreApi.getState().isBlocked("toolbar")).toBe(false);
+    });
+  });
+
+  it("should not block when no matching query is fetching", async () => {
+    const { result } = renderHook(
+      () => {
+        useQuery({ queryKey: ["users"], queryFn: () => new Promise(() => undefined) });
+        return useBlockingIsFetching({ queryKey: ["orders"] }, { scope: "toolbar" });
+      },
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current).toBe(0);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("toolbar")).toBe(false);
+  });
+});
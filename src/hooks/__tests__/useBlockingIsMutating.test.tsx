@@ -0,0 +1,57 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useMutation } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { useBlockingIsMutating } from "../useBlockingIsMutating";
+
+describe("useBlockingIsMutating", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while matching mutations are pending and report the count", async () => {
+    const resolvers: Array<(value: string) => void> = [];
+    const mutationFn = () =>
+      new Promise<string>((resolve) => {
+        resolvers.push(resolve);
+      });
+
+    const { result } = renderHook(
+      () => ({
+        order: useMutation({ mutationKey: ["orders", "save"], mutationFn }),
+        profile: useMutation({ mutationKey: ["profile"], mutationFn }),
+        count: useBlockingIsMutating(
+          { mutationKey: ["orders"] },
+          { scope: "navigation", reason: "Saving {count} orders..." }
+        ),
+      }),
+      { wrapper: createWrapper() }
+    );
+
+    act(() => {
+      result.current.order.mutate(undefined);
+      result.current.order.mutate(undefined);
+      result.current.profile.mutate(undefined);
+    });
+
+    await waitFor(() => {
+      expect(result.current.count).toBe(2);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("navigation");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Saving 2 orders...");
+      expect(info[0]?.priority).toBe(30);
+    });
+
+    act(() => {
+      resolvers.forEach((resolve) => {
+        resolve("done");
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.count).toBe(0);
+      expect(uiBlockingStoreApi.getState().isBlocked("navigation")).toBe(false);
+    });
+  });
+});
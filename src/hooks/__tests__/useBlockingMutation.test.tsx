@@ -1,7 +1,8 @@
-import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { uiBlockingStoreApi, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { onlineManager, useQuery } from "@tanstack/react-query";
 import { renderHook, waitFor } from "@testing-library/react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { actAsync, createWrapper } from "../../test/test.utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { actAsync, createTestQueryClient, createWrapper } from "../../test/test.utils";
 import { useBlockingMutation } from "../useBlockingMutation";
 import { MutationBlockingConfig } from "../useBlockingMutation.types";
 
@@ -10,6 +11,10 @@ describe("useBlockingMutation", () => {
     uiBlockingStoreApi.getState().clearAllBlockers();
   });
 
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
   it("should block UI during mutation execution", async () => {
     const mutationFn = vi.fn().mockImplementation(
       () =>
@@ -996,4 +1001,450 @@ describe("useBlockingMutation", () => {
       expect(info.length).toBe(2);
     });
   });
+
+  it("should register blockers in the nearest UIBlockingProvider store", async () => {
+    const mutationFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const first = renderHook(
+      () => ({
+        mutation: useBlockingMutation({
+          mutationFn,
+          blockingConfig: { scope: "first" },
+        }),
+        store: useResolvedStoreApi(),
+      }),
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    const second = renderHook(
+      () => ({
+        mutation: useBlockingMutation({
+          mutationFn,
+          blockingConfig: { scope: "second" },
+        }),
+        store: useResolvedStoreApi(),
+      }),
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    first.result.current.mutation.mutate(undefined);
+    second.result.current.mutation.mutate(undefined);
+
+    await waitFor(() => {
+      expect(first.result.current.store.getState().isBlocked("first")).toBe(true);
+      expect(second.result.current.store.getState().isBlocked("second")).toBe(true);
+    });
+
+    expect(first.result.current.store.getState().isBlocked("second")).toBe(false);
+    expect(second.result.current.store.getState().isBlocked("first")).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked(["first", "second"])).toBe(false);
+
+    first.unmount();
+    second.unmount();
+
+    expect(first.result.current.store.getState().isBlocked("first")).toBe(false);
+    expect(second.result.current.store.getState().isBlocked("second")).toBe(false);
+  });
+
+  it("should resolve function reasons with the mutation variables", async () => {
+    const mutationFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn: (invoice: { id: number }) => mutationFn(invoice) as Promise<void>,
+          blockingConfig: {
+            scope: "test",
+            reasonOnPending: (mutation) => `Saving invoice #${String(mutation.variables?.id)}...`,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate({ id: 42 });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Saving invoice #42...");
+    });
+  });
+
+  it("should keep the blocker for minDuration after the mutation settles", async () => {
+    let resolveMutation: ((value: string) => void) | undefined;
+    const mutationFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveMutation = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: { scope: "test", minDuration: 300 },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+
+    resolveMutation?.("saved");
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should use reasonOnPaused while the mutation is paused offline", async () => {
+    onlineManager.setOnline(false);
+    const mutationFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: {
+            scope: "test",
+            reasonOnPending: "Saving...",
+            reasonOnPaused: "Waiting for connection...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      expect(result.current.isPaused).toBe(true);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Waiting for connection...");
+    });
+
+    expect(mutationFn).not.toHaveBeenCalled();
+  });
+
+  it("should use reasonOnRetrying with the attempt number while retrying", async () => {
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          retry: 1,
+          retryDelay: 1000,
+          blockingConfig: {
+            scope: "test",
+            reasonOnPending: "Saving...",
+            reasonOnRetrying: "Retrying (attempt {attempt}) in {retryIn}s...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Retrying (attempt 2) in 1s...");
+    });
+  });
+
+  it("should keep blocking until queries matching waitFor finish refetching", async () => {
+    const queryClient = createTestQueryClient();
+    let resolveRefetch: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("initial")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRefetch = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () => {
+        const query = useQuery({ queryKey: ["todos"], queryFn });
+        const mutation = useBlockingMutation({
+          mutationFn: () => Promise.resolve("saved"),
+          onSuccess: () => {
+            void queryClient.invalidateQueries({ queryKey: ["todos"] });
+          },
+          blockingConfig: {
+            scope: "test",
+            waitFor: { queryKey: ["todos"] },
+            reasonOnPending: "Saving...",
+            reasonOnSettling: "Refreshing list...",
+          },
+        });
+        return { query, mutation };
+      },
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe("initial");
+    });
+
+    result.current.mutation.mutate(undefined);
+
+    await waitFor(() => {
+      expect(result.current.mutation.isSuccess).toBe(true);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Refreshing list...");
+    });
+
+    resolveRefetch?.("refreshed");
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe("refreshed");
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+
+    // Later refetches of the same queries don't block for the settled submission
+    void result.current.query.refetch();
+
+    await waitFor(() => {
+      expect(result.current.query.isFetching).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should keep blocking until the per-call onSuccess promise settles when waitFor is 'onSuccess'", async () => {
+    let resolveFollowUp: (() => void) | undefined;
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn: () => Promise.resolve("saved"),
+          blockingConfig: {
+            scope: "test",
+            waitFor: "onSuccess",
+            reasonOnSettling: "Finishing up...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate(undefined, {
+      onSuccess: () =>
+        new Promise<void>((resolve) => {
+          resolveFollowUp = resolve;
+        }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Finishing up...");
+    });
+
+    resolveFollowUp?.();
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should derive scope and priority from the variables of each mutate call", async () => {
+    const resolvers: Array<(value: string) => void> = [];
+    const mutationFn = vi.fn().mockImplementation(
+      (_row: { id: number }) =>
+        new Promise<string>((resolve) => {
+          resolvers.push(resolve);
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: {
+            scope: (row) => [`row-${String(row.id)}`, "table"],
+            priority: (row) => row.id,
+            reasonOnPending: (mutation) => `Saving row ${String(mutation.variables?.id)}...`,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate({ id: 42 });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("row-42");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.priority).toBe(42);
+      expect(info[0]?.reason).toBe("Saving row 42...");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("row-7")).toBe(false);
+
+    result.current.mutate({ id: 7 });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("row-7")).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("row-42")).toBe(false);
+    expect(uiBlockingStoreApi.getState().getBlockingInfo("table")[0]?.priority).toBe(7);
+
+    resolvers.forEach((resolve) => {
+      resolve("saved");
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("table")).toBe(false);
+    });
+  });
+
+  it("should hold one blocker per pending invocation when perInvocation is true", async () => {
+    const resolvers = new Map<number, (value: string) => void>();
+    const mutationFn = vi.fn().mockImplementation(
+      (row: { id: number }) =>
+        new Promise<string>((resolve) => {
+          resolvers.set(row.id, resolve);
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: {
+            scope: (row) => [`row-${String(row.id)}`, "table"],
+            reasonOnPending: (mutation) => `Saving row ${String(mutation.variables?.id)}...`,
+            perInvocation: true,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate({ id: 1 });
+    result.current.mutate({ id: 2 });
+    result.current.mutate({ id: 3 });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("table");
+      expect(info.map((blocker) => blocker.reason).sort()).toEqual([
+        "Saving row 1...",
+        "Saving row 2...",
+        "Saving row 3...",
+      ]);
+    });
+
+    resolvers.get(3)?.("saved");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("row-3")).toBe(false);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("row-1")).toBe(true);
+    expect(uiBlockingStoreApi.getState().isBlocked("row-2")).toBe(true);
+
+    resolvers.get(1)?.("saved");
+    resolvers.get(2)?.("saved");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("table")).toBe(false);
+    });
+  });
+
+  it("should keep a settled invocation's blocker for minDuration when perInvocation is true", async () => {
+    let resolveSave: ((value: string) => void) | undefined;
+    const mutationFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveSave = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: {
+            scope: (row: { id: number }) => `row-${String(row.id)}`,
+            perInvocation: true,
+            minDuration: 300,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate({ id: 1 });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("row-1")).toBe(true);
+    });
+
+    resolveSave?.("saved");
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    // The invocation is no longer pending, but its blocker stays for minDuration
+    expect(uiBlockingStoreApi.getState().isBlocked("row-1")).toBe(true);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("row-1")).toBe(false);
+    });
+  });
+
+  it("should skip errors rejected by shouldBlockOnError and surface the error in reasonOnError", async () => {
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Aborted"))
+      .mockRejectedValueOnce(new Error("Email is already taken"));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingMutation({
+          mutationFn,
+          blockingConfig: {
+            scope: "test",
+            onError: true,
+            shouldBlockOnError: (error) => error.message !== "Aborted",
+            reasonOnError: (mutation) => `Validation failed: ${mutation.error.message}`,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Validation failed: Email is already taken");
+    });
+  });
 });
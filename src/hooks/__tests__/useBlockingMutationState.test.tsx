@@ -0,0 +1,160 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useMutation } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import { useBlockingMutationState } from "../useBlockingMutationState";
+
+interface SaveOrderVariables {
+  orderId: string;
+}
+
+describe("useBlockingMutationState", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while a matching mutation fired elsewhere is pending", async () => {
+    let resolveMutation: ((value: string) => void) | undefined;
+
+    const { result } = renderHook(
+      () => ({
+        modal: useMutation({
+          mutationKey: ["orders", "save"],
+          mutationFn: (_variables: SaveOrderVariables) =>
+            new Promise<string>((resolve) => {
+              resolveMutation = resolve;
+            }),
+        }),
+        page: useBlockingMutationState<SaveOrderVariables>(
+          { mutationKey: ["orders"] },
+          {
+            scope: "order-page",
+            reasonOnPending: (variables) => `Saving order ${variables?.orderId ?? ""}...`,
+          }
+        ),
+      }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(uiBlockingStoreApi.getState().isBlocked("order-page")).toBe(false);
+
+    act(() => {
+      result.current.modal.mutate({ orderId: "42" });
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("order-page");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Saving order 42...");
+      expect(info[0]?.priority).toBe(30);
+    });
+
+    act(() => {
+      resolveMutation?.("saved");
+    });
+
+    await waitFor(() => {
+      expect(result.current.page[0]?.status).toBe("success");
+      expect(uiBlockingStoreApi.getState().isBlocked("order-page")).toBe(false);
+    });
+  });
+
+  it("should ignore mutations that do not match the filters", async () => {
+    const { result } = renderHook(
+      () => ({
+        other: useMutation({
+          mutationKey: ["profile"],
+          mutationFn: () => new Promise(() => undefined),
+        }),
+        page: useBlockingMutationState({ mutationKey: ["orders"] }, { scope: "order-page" }),
+      }),
+      { wrapper: createWrapper() }
+    );
+
+    act(() => {
+      result.current.other.mutate(undefined);
+    });
+
+    await waitFor(() => {
+      expect(result.current.other.isPending).toBe(true);
+    });
+
+    expect(result.current.page).toHaveLength(0);
+    expect(uiBlockingStoreApi.getState().isBlocked("order-page")).toBe(false);
+  });
+
+  it("should keep blocking on error when onError is true", async () => {
+    const queryClient = createTestQueryClient();
+    const { result } = renderHook(
+      () => ({
+        modal: useMutation({
+          mutationKey: ["orders", "delete"],
+          mutationFn: (_variables: SaveOrderVariables) => Promise.reject(new Error("Failed")),
+        }),
+        page: useBlockingMutationState<SaveOrderVariables>(
+          { mutationKey: ["orders"] },
+          {
+            scope: "order-page",
+            onError: true,
+            reasonOnError: (variables) => `Order ${variables?.orderId ?? ""} failed`,
+          }
+        ),
+      }),
+      { wrapper: createWrapper({ queryClient }) }
+    );
+
+    act(() => {
+      result.current.modal.mutate({ orderId: "7" });
+    });
+
+    await waitFor(() => {
+      expect(result.current.modal.isError).toBe(true);
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("order-page");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Order 7 failed");
+    });
+
+    act(() => {
+      const mutationCache = queryClient.getMutationCache();
+      mutationCache.getAll().forEach((mutation) => {
+        mutationCache.remove(mutation);
+      });
+    });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("order-page")).toBe(false);
+    });
+  });
+
+  it("should read the mutationState entry of BlockingDefaultsProvider", async () => {
+    const { result } = renderHook(
+      () => ({
+        modal: useMutation({
+          mutationKey: ["orders", "update"],
+          mutationFn: () => new Promise(() => undefined),
+        }),
+        state: useBlockingMutationState(
+          { mutationKey: ["orders", "update"] },
+          { scope: "order-page" }
+        ),
+      }),
+      {
+        wrapper: createWrapper({
+          defaults: { mutationState: { reason: "Bestellung wird gespeichert...", priority: 70 } },
+        }),
+      }
+    );
+
+    act(() => {
+      result.current.modal.mutate();
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("order-page");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Bestellung wird gespeichert...");
+      expect(info[0]?.priority).toBe(70);
+    });
+  });
+});
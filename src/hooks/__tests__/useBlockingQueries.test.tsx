@@ -1,6 +1,7 @@
-import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { uiBlockingStoreApi, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { onlineManager } from "@tanstack/react-query";
 import { renderHook, waitFor } from "@testing-library/react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createWrapper } from "../../test/test.utils";
 import { useBlockingQueries } from "../useBlockingQueries";
 import { QueriesBlockingConfig } from "../useBlockingQueries.types";
@@ -10,6 +11,10 @@ describe("useBlockingQueries", () => {
     uiBlockingStoreApi.getState().clearAllBlockers();
   });
 
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
   it("should block UI during initial loading of multiple queries", async () => {
     const queryFn1 = vi.fn().mockImplementation(
       () =>
@@ -510,4 +515,392 @@ describe("useBlockingQueries", () => {
 
     expect(uiBlockingStoreApi.getState().getBlockingInfo("test")).toHaveLength(0);
   });
+
+  it("should register blockers in the nearest UIBlockingProvider store", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const first = renderHook(
+      () => {
+        useBlockingQueries([{ queryKey: ["isolated", "first"], queryFn }], { scope: "first" });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    const second = renderHook(
+      () => {
+        useBlockingQueries([{ queryKey: ["isolated", "second"], queryFn }], { scope: "second" });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    await waitFor(() => {
+      expect(first.result.current.getState().isBlocked("first")).toBe(true);
+      expect(second.result.current.getState().isBlocked("second")).toBe(true);
+    });
+
+    expect(first.result.current.getState().isBlocked("second")).toBe(false);
+    expect(second.result.current.getState().isBlocked("first")).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked(["first", "second"])).toBe(false);
+
+    first.unmount();
+    second.unmount();
+  });
+
+  it("should register a separate blocker per query with its own blockingConfig", async () => {
+    let resolveUser: ((value: string) => void) | undefined;
+    const userFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveUser = resolve;
+        })
+    );
+    const statsFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            {
+              queryKey: ["user"],
+              queryFn: userFn,
+              blockingConfig: { scope: "profile-panel", reasonOnLoading: "Loading profile..." },
+            },
+            {
+              queryKey: ["stats"],
+              queryFn: statsFn,
+              blockingConfig: { scope: "stats-panel", priority: 40 },
+            },
+          ],
+          { scope: "dashboard" }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const { getBlockingInfo } = uiBlockingStoreApi.getState();
+      expect(getBlockingInfo("profile-panel")).toHaveLength(1);
+      expect(getBlockingInfo("profile-panel")[0]?.reason).toBe("Loading profile...");
+      expect(getBlockingInfo("stats-panel")).toHaveLength(1);
+      expect(getBlockingInfo("stats-panel")[0]?.priority).toBe(40);
+      expect(getBlockingInfo("dashboard")).toHaveLength(1);
+    });
+
+    resolveUser?.("user");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("profile-panel")).toBe(false);
+    });
+
+    const { isBlocked } = uiBlockingStoreApi.getState();
+    expect(isBlocked("stats-panel")).toBe(true);
+    expect(isBlocked("dashboard")).toBe(true);
+  });
+
+  it("should not register per-query blockers without a shared blockingConfig", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { unmount } = renderHook(
+      () =>
+        useBlockingQueries([
+          { queryKey: ["user"], queryFn, blockingConfig: { scope: "profile-panel" } },
+          { queryKey: ["stats"], queryFn },
+        ]),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("profile-panel")).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(1);
+
+    unmount();
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+  });
+
+  it("should remove a per-query blocker when its entry is removed", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { rerender } = renderHook(
+      ({ ids }: { ids: Array<string> }) =>
+        useBlockingQueries(
+          ids.map((id) => ({
+            queryKey: ["panel", id],
+            queryFn,
+            blockingConfig: { scope: `panel-${id}` },
+          }))
+        ),
+      { wrapper: createWrapper(), initialProps: { ids: ["a", "b"] } }
+    );
+
+    await waitFor(() => {
+      const { isBlocked } = uiBlockingStoreApi.getState();
+      expect(isBlocked("panel-a")).toBe(true);
+      expect(isBlocked("panel-b")).toBe(true);
+    });
+
+    rerender({ ids: ["a"] });
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("panel-b")).toBe(false);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("panel-a")).toBe(true);
+  });
+
+  it("should update the reason with settled and total counts", async () => {
+    const resolvers: Array<(value: string) => void> = [];
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolvers.push(resolve);
+        })
+    );
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["source", 1], queryFn },
+            { queryKey: ["source", 2], queryFn },
+            { queryKey: ["source", 3], queryFn },
+          ],
+          { scope: "test", reasonOnLoading: "Loaded {settled} of {total} sources" }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info[0]?.reason).toBe("Loaded 0 of 3 sources");
+    });
+
+    resolvers[0]?.("first");
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loaded 1 of 3 sources");
+    });
+
+    resolvers[1]?.("second");
+    resolvers[2]?.("third");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should only block while every query is pending with aggregate 'all'", async () => {
+    let resolveFirst: ((value: string) => void) | undefined;
+    const firstFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveFirst = resolve;
+        })
+    );
+    const pendingFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["first"], queryFn: firstFn },
+            { queryKey: ["second"], queryFn: pendingFn },
+          ],
+          { scope: "test", aggregate: "all" }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+
+    resolveFirst?.("first");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should block while at least n queries match with aggregate atLeast", async () => {
+    const queryFn = vi.fn().mockRejectedValue(new Error("failed"));
+    const pendingFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["a"], queryFn, retry: false },
+            { queryKey: ["b"], queryFn, retry: false },
+            { queryKey: ["c"], queryFn: pendingFn },
+          ],
+          {
+            scope: "test",
+            aggregate: { atLeast: 2 },
+            onLoading: false,
+            onError: true,
+            reasonOnError: "{error} of {total} sources failed",
+          }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("2 of 3 sources failed");
+    });
+  });
+
+  it("should not block when fewer than n queries match with aggregate atLeast", async () => {
+    const pendingFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["a"], queryFn: pendingFn },
+            { queryKey: ["b"], queryFn: pendingFn },
+          ],
+          { scope: "test", aggregate: { atLeast: 3 } }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(pendingFn).toHaveBeenCalledTimes(2);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should apply delay to per-query blockers", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQueries(
+          [{ queryKey: ["delayed-entry"], queryFn, blockingConfig: { scope: "entry", delay: 50 } }],
+          { scope: "dashboard" }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current[0].fetchStatus).toBe("fetching");
+      expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("entry")).toBe(false);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("entry")).toBe(true);
+    });
+  });
+
+  it("should report paused queries with reasonOnPaused and the {paused} count", async () => {
+    onlineManager.setOnline(false);
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["paused", 1], queryFn },
+            { queryKey: ["paused", 2], queryFn },
+          ],
+          { scope: "test", reasonOnPaused: "Waiting for connection ({paused} of {total})..." }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Waiting for connection (2 of 2)...");
+    });
+  });
+
+  it("should unblock while queries are paused when onPaused is false", async () => {
+    onlineManager.setOnline(false);
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQueries([{ queryKey: ["paused", "unblocked"], queryFn }], {
+          scope: "test",
+          onPaused: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current[0].fetchStatus).toBe("paused");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should only count failed queries accepted by shouldBlockOnError", async () => {
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            {
+              queryKey: ["aborted"],
+              queryFn: () => Promise.reject(new Error("Aborted")),
+              retry: false,
+            },
+            {
+              queryKey: ["invalid"],
+              queryFn: () => Promise.reject(new Error("Invalid filter")),
+              retry: false,
+            },
+          ],
+          {
+            scope: "test",
+            onError: true,
+            aggregate: "all",
+            shouldBlockOnError: (error) => error.message !== "Aborted",
+          }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should resolve a function reasonOnError with the first failed query that blocks", async () => {
+    renderHook(
+      () =>
+        useBlockingQueries(
+          [
+            { queryKey: ["ok"], queryFn: () => Promise.resolve("data") },
+            {
+              queryKey: ["invalid"],
+              queryFn: () => Promise.reject(new Error("Invalid filter")),
+              retry: false,
+            },
+          ],
+          {
+            scope: "test",
+            onError: true,
+            reasonOnError: (query) => `{error} failed: ${query.error.message}`,
+          }
+        ),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("1 failed: Invalid filter");
+    });
+  });
 });
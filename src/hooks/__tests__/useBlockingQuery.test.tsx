@@ -1,7 +1,9 @@
-import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { uiBlockingStoreApi, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { onlineManager } from "@tanstack/react-query";
 import { renderHook, waitFor } from "@testing-library/react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { actAsync, createWrapper } from "../../test/test.utils";
+import { BlockingTimeoutError } from "../../utils";
 import { useBlockingQuery } from "../useBlockingQuery";
 import { QueryBlockingConfig } from "../useBlockingQuery.types";
 
@@ -10,6 +12,10 @@ describe("useBlockingQuery", () => {
     uiBlockingStoreApi.getState().clearAllBlockers();
   });
 
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
   it("should block UI during initial loading", async () => {
     const queryFn = vi.fn().mockImplementation(
       () =>
@@ -90,6 +96,71 @@ describe("useBlockingQuery", () => {
     expect(isBlocked("test")).toBe(false);
   });
 
+  it("should cancel the query when the blocker times out with onTimeoutAction 'cancel'", async () => {
+    let signal: AbortSignal | undefined;
+    const queryFn = vi.fn().mockImplementation((context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return new Promise(() => undefined);
+    });
+    const onTimeout = vi.fn();
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["timeout-cancel"],
+          queryFn,
+          blockingConfig: {
+            scope: "test",
+            timeout: 50,
+            onTimeout,
+            onTimeoutAction: "cancel",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+    });
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("idle");
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.isPending).toBe(true);
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should fail the query with BlockingTimeoutError with onTimeoutAction 'error'", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["timeout-error"],
+          queryFn,
+          blockingConfig: {
+            scope: "test",
+            onError: true,
+            timeout: 50,
+            onTimeoutAction: "error",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(result.current.error).toBeInstanceOf(BlockingTimeoutError);
+    expect((result.current.error as BlockingTimeoutError).timeout).toBe(50);
+    expect(result.current.fetchStatus).toBe("idle");
+    // The timeout error does not block again through onError
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
   it("should not block when onLoading is false", async () => {
     const queryFn = vi.fn().mockResolvedValue("data");
 
@@ -781,4 +852,416 @@ describe("useBlockingQuery", () => {
       }
     });
   });
+
+  it("should register blockers in the nearest UIBlockingProvider store", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const first = renderHook(
+      () => {
+        useBlockingQuery({
+          queryKey: ["isolated", "first"],
+          queryFn,
+          blockingConfig: { scope: "first" },
+        });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    const second = renderHook(
+      () => {
+        useBlockingQuery({
+          queryKey: ["isolated", "second"],
+          queryFn,
+          blockingConfig: { scope: "second" },
+        });
+        return useResolvedStoreApi();
+      },
+      { wrapper: createWrapper({ isolated: true }) }
+    );
+
+    await waitFor(() => {
+      expect(first.result.current.getState().isBlocked("first")).toBe(true);
+      expect(second.result.current.getState().isBlocked("second")).toBe(true);
+    });
+
+    expect(first.result.current.getState().isBlocked("second")).toBe(false);
+    expect(second.result.current.getState().isBlocked("first")).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked(["first", "second"])).toBe(false);
+
+    first.unmount();
+
+    expect(first.result.current.getState().isBlocked("first")).toBe(false);
+    expect(second.result.current.getState().isBlocked("second")).toBe(true);
+
+    second.unmount();
+  });
+
+  it("should update function reasons with the live query state", async () => {
+    const queryFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["function-reason"],
+          queryFn,
+          retry: 2,
+          retryDelay: 10,
+          blockingConfig: {
+            scope: "test",
+            reasonOnLoading: (query) => `Attempt ${String(query.failureCount + 1)} of 3...`,
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info[0]?.reason).toBe("Attempt 1 of 3...");
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Attempt 2 of 3...");
+    });
+  });
+
+  it("should not register a blocker for queries that finish within delay", async () => {
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          setTimeout(() => resolve("data"), 10);
+        })
+    );
+    const blockedStates: Array<boolean> = [];
+    const unsubscribe = uiBlockingStoreApi.subscribe((state) => {
+      blockedStates.push(state.isBlocked("test"));
+    });
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["delay-fast"],
+          queryFn,
+          blockingConfig: { scope: "test", delay: 100 },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("data");
+    });
+
+    await actAsync(async () => {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 150);
+      });
+    });
+
+    unsubscribe();
+    expect(blockedStates).not.toContain(true);
+  });
+
+  it("should register the blocker once the blocking state outlasts delay", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["delay-slow"],
+          queryFn,
+          blockingConfig: { scope: "test", delay: 50 },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("fetching");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+  });
+
+  it("should keep the blocker for minDuration after the query settles", async () => {
+    let resolveQuery: ((value: string) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["min-duration"],
+          queryFn,
+          blockingConfig: { scope: "test", minDuration: 300 },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+
+    resolveQuery?.("data");
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("data");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should cancel pending delay and minDuration timers on unmount in StrictMode", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const delayed = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["strict-delay"],
+          queryFn,
+          blockingConfig: { scope: "delayed", delay: 50 },
+        }),
+      { wrapper: createWrapper({ strictMode: true }) }
+    );
+    const minimum = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["strict-min-duration"],
+          queryFn,
+          blockingConfig: { scope: "minimum", minDuration: 1000 },
+        }),
+      { wrapper: createWrapper({ strictMode: true }) }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().getBlockingInfo("minimum")).toHaveLength(1);
+    });
+
+    delayed.unmount();
+    minimum.unmount();
+
+    expect(uiBlockingStoreApi.getState().isBlocked("minimum")).toBe(false);
+
+    await actAsync(async () => {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 100);
+      });
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("delayed")).toBe(false);
+  });
+
+  it("should use reasonOnPaused while the fetch is paused offline", async () => {
+    onlineManager.setOnline(false);
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["paused"],
+          queryFn,
+          blockingConfig: {
+            scope: "test",
+            reasonOnLoading: "Loading data...",
+            reasonOnPaused: "Waiting for connection...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("paused");
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Waiting for connection...");
+    });
+
+    onlineManager.setOnline(true);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info[0]?.reason).toBe("Loading data...");
+    });
+  });
+
+  it("should not block while the fetch is paused when onPaused is false", async () => {
+    onlineManager.setOnline(false);
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["paused", "unblocked"],
+          queryFn,
+          blockingConfig: { scope: "test", onPaused: false },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("paused");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    onlineManager.setOnline(true);
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+  });
+
+  it("should count down to the next retry in reasonOnRetrying", async () => {
+    const queryFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["retrying"],
+          queryFn,
+          retry: 2,
+          retryDelay: 1500,
+          blockingConfig: {
+            scope: "test",
+            reasonOnLoading: "Loading data...",
+            reasonOnRetrying: "Attempt {attempt} in {retryIn}s...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info[0]?.reason).toBe("Attempt 2 in 2s...");
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Attempt 2 in 1s...");
+    });
+  });
+
+  it("should not re-add a timed-out blocker when the retry countdown ticks", async () => {
+    const queryFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockImplementation(() => new Promise(() => undefined));
+    const onTimeout = vi.fn();
+
+    renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["retrying", "timeout"],
+          queryFn,
+          retry: 1,
+          retryDelay: 3000,
+          blockingConfig: {
+            scope: "test",
+            timeout: 300,
+            onTimeout,
+            reasonOnRetrying: "Attempt {attempt} in {retryIn}s...",
+          },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+    });
+
+    // Let the countdown change the reason at least once after the timeout
+    await actAsync(async () => {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 1500);
+      });
+    });
+
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should not block while retrying when onRetrying is false", async () => {
+    const queryFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["retrying", "unblocked"],
+          queryFn,
+          retry: 1,
+          retryDelay: 10,
+          blockingConfig: { scope: "test", onRetrying: false },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(true);
+    });
+
+    await waitFor(() => {
+      expect(result.current.failureCount).toBe(1);
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+
+    expect(result.current.isPending).toBe(true);
+  });
+
+  it("should only block for errors accepted by shouldBlockOnError", async () => {
+    class HttpError extends Error {
+      constructor(readonly status: number) {
+        super(`HTTP ${String(status)}`);
+      }
+    }
+
+    const { rerender } = renderHook(
+      ({ status }: { status: number }) =>
+        useBlockingQuery<string, HttpError>({
+          queryKey: ["error", status],
+          queryFn: () => Promise.reject(new HttpError(status)),
+          retry: false,
+          blockingConfig: {
+            scope: "test",
+            onError: true,
+            onLoading: false,
+            shouldBlockOnError: (error) => error.status !== 404,
+            reasonOnError: (query) => `Server error: ${query.error.message}`,
+          },
+        }),
+      { wrapper: createWrapper(), initialProps: { status: 404 } }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    rerender({ status: 500 });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Server error: HTTP 500");
+    });
+  });
 });
@@ -0,0 +1,95 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { IsRestoringProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { useBlockingQuery } from "../useBlockingQuery";
+import { useBlockingRestoring } from "../useBlockingRestoring";
+import type { ReactElement, ReactNode } from "react";
+
+function createRestoringWrapper(isRestoring: () => boolean) {
+  const Wrapper = createWrapper();
+
+  return function ({ children }: { children: ReactNode }): ReactElement {
+    return (
+      <Wrapper>
+        <IsRestoringProvider value={isRestoring()}>{children}</IsRestoringProvider>
+      </Wrapper>
+    );
+  };
+}
+
+describe("useBlockingRestoring", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while the cache is restoring", async () => {
+    let isRestoring = true;
+
+    const { result, rerender } = renderHook(
+      () => useBlockingRestoring({ scope: "form", reason: "Restoring your draft..." }),
+      { wrapper: createRestoringWrapper(() => isRestoring) }
+    );
+
+    expect(result.current).toBe(true);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("form");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Restoring your draft...");
+      expect(info[0]?.priority).toBe(10);
+    });
+
+    isRestoring = false;
+    rerender();
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("form")).toBe(false);
+    });
+  });
+
+  it("should not block outside a persister", () => {
+    const { result } = renderHook(() => useBlockingRestoring({ scope: "form" }), {
+      wrapper: createWrapper(),
+    });
+
+    expect(result.current).toBe(false);
+    expect(uiBlockingStoreApi.getState().isBlocked("form")).toBe(false);
+  });
+
+  it("should block useBlockingQuery while restoring when onRestoring is true", async () => {
+    let isRestoring = true;
+    const queryFn = vi.fn().mockResolvedValue("data");
+
+    const { rerender } = renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["restored"],
+          queryFn,
+          blockingConfig: {
+            scope: "form",
+            onLoading: false,
+            onRestoring: true,
+            reasonOnRestoring: "Restoring cache...",
+          },
+        }),
+      { wrapper: createRestoringWrapper(() => isRestoring) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("form");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Restoring cache...");
+    });
+
+    expect(queryFn).not.toHaveBeenCalled();
+
+    isRestoring = false;
+    rerender();
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("form")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { useBlockingSuspenseInfiniteQuery } from "../useBlockingSuspenseInfiniteQuery";
+
+interface Page {
+  items: Array<string>;
+  nextCursor?: number;
+}
+
+describe("useBlockingSuspenseInfiniteQuery", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while the first page is suspended", async () => {
+    let resolvePage: ((page: Page) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<Page>((resolve) => {
+          resolvePage = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseInfiniteQuery({
+          queryKey: ["suspense-infinite"],
+          queryFn,
+          initialPageParam: 1,
+          getNextPageParam: (lastPage: Page) => lastPage.nextCursor,
+          blockingConfig: { scope: "test", reasonOnLoading: "Loading feed..." },
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading feed...");
+    });
+
+    resolvePage?.({ items: ["item1"], nextCursor: 2 });
+
+    await waitFor(() => {
+      expect(result.current.data.pages).toHaveLength(1);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should block while fetching the next page when onFetching is true", async () => {
+    let resolveNextPage: ((page: Page) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce({ items: ["item1"], nextCursor: 2 })
+      .mockImplementation(
+        () =>
+          new Promise<Page>((resolve) => {
+            resolveNextPage = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseInfiniteQuery({
+          queryKey: ["suspense-infinite", "next"],
+          queryFn,
+          initialPageParam: 1,
+          getNextPageParam: (lastPage: Page) => lastPage.nextCursor,
+          blockingConfig: {
+            scope: "test",
+            onFetching: true,
+            reasonOnFetching: "Loading more...",
+          },
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data.pages).toHaveLength(1);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading more...");
+    });
+
+    resolveNextPage?.({ items: ["item2"] });
+
+    await waitFor(() => {
+      expect(result.current.data.pages).toHaveLength(2);
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should not block next page loads by default", async () => {
+    let resolveNextPage: ((page: Page) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce({ items: ["item1"], nextCursor: 2 })
+      .mockImplementation(
+        () =>
+          new Promise<Page>((resolve) => {
+            resolveNextPage = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseInfiniteQuery({
+          queryKey: ["suspense-infinite", "default"],
+          queryFn,
+          initialPageParam: 1,
+          getNextPageParam: (lastPage: Page) => lastPage.nextCursor,
+          blockingConfig: { scope: "test" },
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data.pages).toHaveLength(1);
+    });
+
+    void result.current.fetchNextPage();
+
+    await waitFor(() => {
+      expect(result.current.isFetchingNextPage).toBe(true);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    resolveNextPage?.({ items: ["item2"] });
+
+    await waitFor(() => {
+      expect(result.current.data.pages).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { useBlockingSuspenseQueries } from "../useBlockingSuspenseQueries";
+
+describe("useBlockingSuspenseQueries", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should register a single blocker until all suspended queries resolve", async () => {
+    let resolveUser: ((value: string) => void) | undefined;
+    let resolveStats: ((value: number) => void) | undefined;
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseQueries(
+          [
+            {
+              queryKey: ["user"],
+              queryFn: () =>
+                new Promise<string>((resolve) => {
+                  resolveUser = resolve;
+                }),
+            },
+            {
+              queryKey: ["stats"],
+              queryFn: () =>
+                new Promise<number>((resolve) => {
+                  resolveStats = resolve;
+                }),
+            },
+          ],
+          { scope: "dashboard", reasonOnLoading: "Loading dashboard..." }
+        ),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("dashboard");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading dashboard...");
+    });
+
+    resolveUser?.("Ada");
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(true);
+    });
+
+    resolveStats?.(42);
+
+    await waitFor(() => {
+      expect(result.current[0].data).toBe("Ada");
+      expect(result.current[1].data).toBe(42);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(false);
+  });
+
+  it("should not block without blockingConfig or matching rule", async () => {
+    const queryFn = vi.fn().mockResolvedValue("data");
+
+    const { result } = renderHook(
+      () => useBlockingSuspenseQueries([{ queryKey: ["plain"], queryFn }]),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+
+    await waitFor(() => {
+      expect(result.current[0].data).toBe("data");
+    });
+  });
+
+  it("should block during background refetch when onFetching is true", async () => {
+    let resolveRefetch: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("initial")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRefetch = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseQueries([{ queryKey: ["refetch"], queryFn }], {
+          scope: "dashboard",
+          onFetching: true,
+          reasonOnFetching: "Refreshing...",
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current[0].data).toBe("initial");
+    });
+
+    void result.current[0].refetch();
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().getBlockingInfo("dashboard")[0]?.reason).toBe(
+        "Refreshing..."
+      );
+    });
+
+    resolveRefetch?.("refreshed");
+
+    await waitFor(() => {
+      expect(result.current[0].data).toBe("refreshed");
+      expect(uiBlockingStoreApi.getState().isBlocked("dashboard")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createWrapper } from "../../test/test.utils";
+import { QueryBlockingConfig } from "../useBlockingQuery.types";
+import { useBlockingSuspenseQuery } from "../useBlockingSuspenseQuery";
+
+describe("useBlockingSuspenseQuery", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should block while the query promise is suspended", async () => {
+    let resolveQuery: ((value: string) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    const blockingConfig: QueryBlockingConfig = {
+      scope: "test",
+      reasonOnLoading: "Loading section...",
+    };
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseQuery({
+          queryKey: ["suspense"],
+          queryFn,
+          blockingConfig,
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading section...");
+      expect(info[0]?.priority).toBe(10);
+    });
+
+    expect(result.current).toBeNull();
+
+    resolveQuery?.("data");
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("data");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should not block while suspended when onLoading is false", async () => {
+    let resolveQuery: ((value: string) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseQuery({
+          queryKey: ["suspense"],
+          queryFn,
+          blockingConfig: { scope: "test", onLoading: false },
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    resolveQuery?.("data");
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("data");
+    });
+  });
+
+  it("should block during background refetch when onFetching is true", async () => {
+    let resolveRefetch: ((value: string) => void) | undefined;
+    const queryFn = vi
+      .fn()
+      .mockResolvedValueOnce("initial")
+      .mockImplementation(
+        () =>
+          new Promise<string>((resolve) => {
+            resolveRefetch = resolve;
+          })
+      );
+
+    const { result } = renderHook(
+      () =>
+        useBlockingSuspenseQuery({
+          queryKey: ["suspense", "refetch"],
+          queryFn,
+          blockingConfig: {
+            scope: "test",
+            onFetching: true,
+            reasonOnFetching: "Refreshing section...",
+          },
+        }),
+      { wrapper: createWrapper({ suspense: true }) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("initial");
+    });
+
+    void result.current.refetch();
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Refreshing section...");
+    });
+
+    resolveRefetch?.("refreshed");
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("refreshed");
+      expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+    });
+  });
+
+  it("should register the suspended blocker in the nearest UIBlockingProvider store", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingSuspenseQuery({
+          queryKey: ["suspense", "isolated"],
+          queryFn,
+          blockingConfig: { scope: "test" },
+        }),
+      { wrapper: createWrapper({ suspense: true, isolated: true }) }
+    );
+
+    await waitFor(() => {
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+  });
+
+  it("should clean up correctly in StrictMode", async () => {
+    let resolveQuery: ((value: string) => void) | undefined;
+    const queryFn = vi.fn().mockImplementation(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    const { result, unmount } = renderHook(
+      () =>
+        useBlockingSuspenseQuery({
+          queryKey: ["suspense", "strict"],
+          queryFn,
+          blockingConfig: { scope: "test", reason: "Strict mode load" },
+        }),
+      { wrapper: createWrapper({ strictMode: true, suspense: true }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("test");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Strict mode load");
+    });
+
+    resolveQuery?.("done");
+
+    await waitFor(() => {
+      expect(result.current.data).toBe("done");
+    });
+
+    expect(uiBlockingStoreApi.getState().isBlocked("test")).toBe(false);
+
+    unmount();
+
+    expect(uiBlockingStoreApi.getState().getBlockingInfo("test")).toHaveLength(0);
+  });
+});
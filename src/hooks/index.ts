@@ -2,13 +2,61 @@ export { useBlockingQuery } from "./useBlockingQuery";
 export { useBlockingMutation } from "./useBlockingMutation";
 export { useBlockingInfiniteQuery } from "./useBlockingInfiniteQuery";
 export { useBlockingQueries } from "./useBlockingQueries";
-export type { UseBlockingQueryOptions, QueryBlockingConfig } from "./useBlockingQuery.types";
+export { useBlockingSuspenseQuery } from "./useBlockingSuspenseQuery";
+export { useBlockingSuspenseInfiniteQuery } from "./useBlockingSuspenseInfiniteQuery";
+export { useBlockingSuspenseQueries } from "./useBlockingSuspenseQueries";
+export { useBlockingIsFetching } from "./useBlockingIsFetching";
+export { useBlockingIsMutating } from "./useBlockingIsMutating";
+export { useBlockingMutationState } from "./useBlockingMutationState";
+export { useBlockingRestoring } from "./useBlockingRestoring";
+export { useBlockerActions } from "./useBlockerActions";
+export type {
+  UseBlockingQueryOptions,
+  QueryBlockingConfig,
+  QueryBlockingReason,
+  QueryErrorBlockingReason,
+  QueryBlockingState,
+  QueryTimeoutAction,
+} from "./useBlockingQuery.types";
 export type {
   UseBlockingMutationOptions,
+  UseBlockingMutationResult,
+  BlockingMutateOptions,
   MutationBlockingConfig,
+  MutationBlockingReason,
+  MutationErrorBlockingReason,
+  MutationBlockingState,
+  MutationWaitFor,
+  MutationVariablesValue,
 } from "./useBlockingMutation.types";
 export type {
   UseBlockingInfiniteQueryOptions,
   InfiniteQueryBlockingConfig,
 } from "./useBlockingInfiniteQuery.types";
-export type { UseBlockingQueriesOptions, QueriesBlockingConfig } from "./useBlockingQueries.types";
+export type {
+  UseBlockingQueriesOptions,
+  QueriesBlockingConfig,
+  QueriesEntryBlockingConfig,
+  QueriesAggregate,
+  QueriesCounts,
+} from "./useBlockingQueries.types";
+export type {
+  UseBlockingSuspenseQueryOptions,
+  SuspenseQueryBlockingConfig,
+} from "./useBlockingSuspenseQuery.types";
+export type {
+  UseBlockingSuspenseInfiniteQueryOptions,
+  SuspenseInfiniteQueryBlockingConfig,
+} from "./useBlockingSuspenseInfiniteQuery.types";
+export type {
+  UseBlockingSuspenseQueriesOptions,
+  SuspenseQueriesBlockingConfig,
+} from "./useBlockingSuspenseQueries.types";
+export type { IsFetchingBlockingConfig } from "./useBlockingIsFetching.types";
+export type { IsMutatingBlockingConfig } from "./useBlockingIsMutating.types";
+export type {
+  MutationStateBlockingConfig,
+  MutationStateReason,
+} from "./useBlockingMutationState.types";
+export type { RestoringBlockingConfig } from "./useBlockingRestoring.types";
+export type { UseBlockerActionsResult } from "./useBlockerActions.types";
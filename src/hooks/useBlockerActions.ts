@@ -0,0 +1,58 @@
+import { useBlockingInfo, useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { getBlockerActions } from "../internal";
+import type { UseBlockerActionsResult } from "./useBlockerActions.types";
+
+/**
+ * Returns the cancel/retry actions of the top-priority blocker in a scope.
+ *
+ * `useBlockingQuery`, `useBlockingInfiniteQuery`, `useBlockingQueries`, the suspense hooks
+ * (including `useBlockingSuspenseQueries`, once resolved) and `useBlockingMutation` attach actions
+ * to their blockers: `cancel` cancels the queries via `cancelQueries` (releasing the blocker until
+ * they fetch again) or resets the mutation, and `retry` refetches the queries or runs the mutation
+ * again with its last variables. Per-invocation mutation blockers act on their own invocation.
+ * Blockers from other sources have no actions.
+ *
+ * Reads the same store as `useBlockingInfo` (the nearest `UIBlockingProvider` or the global store).
+ *
+ * @param scope - Scope to read (default: 'global', like `useBlockingInfo`)
+ * @returns The top-priority blocker's ID, reason and actions, or undefined when the scope is not blocked
+ *
+ * @example
+ * ```tsx
+ * function GlobalOverlay() {
+ *   const blocker = useBlockerActions();
+ *
+ *   if (!blocker) {
+ *     return null;
+ *   }
+ *
+ *   return (
+ *     <div className="overlay">
+ *       <p>{blocker.reason}</p>
+ *       {blocker.cancel && <button onClick={blocker.cancel}>Cancel</button>}
+ *       {blocker.retry && <button onClick={blocker.retry}>Try again</button>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockerActions(scope?: string): UseBlockerActionsResult | undefined {
+  const storeApi = useResolvedStoreApi();
+  const blockers = useBlockingInfo(scope);
+
+  if (blockers.length === 0) {
+    return undefined;
+  }
+
+  // Blockers are sorted by priority, highest first.
+  const [topBlocker] = blockers;
+
+  return {
+    blockerId: topBlocker.id,
+    reason: topBlocker.reason,
+    ...getBlockerActions(storeApi, topBlocker.id),
+  };
+}
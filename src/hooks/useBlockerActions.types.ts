@@ -0,0 +1,12 @@
+import type { BlockerActions } from "../types";
+
+/**
+ * Actions of the top-priority blocker of a scope.
+ * `cancel`/`retry` are undefined when the blocker was not registered by a hook with actions.
+ */
+export interface UseBlockerActionsResult extends BlockerActions {
+  /** ID of the blocker the actions belong to */
+  blockerId: string;
+  /** Reason of the blocker */
+  reason: string;
+}
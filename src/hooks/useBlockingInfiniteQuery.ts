@@ -6,11 +6,26 @@ import {
   type QueryKey,
   type UseInfiniteQueryResult,
   useInfiniteQuery,
+  useQueryClient,
 } from "@tanstack/react-query";
-import { useBlockingManager, useQueryBlockerId } from "../internal";
-import { resolveBlockingReason } from "../utils";
+import {
+  useBlockingManager,
+  useQueryBlockerActions,
+  useQueryBlockerId,
+  useQueryBlockingRule,
+  useQueryTimeoutAction,
+  useResolvedBlockingConfig,
+  useRetryCountdown,
+} from "../internal";
+import {
+  formatBlockingReason,
+  getInfiniteFetchingState,
+  isBlockingError,
+  resolveBlockingReason,
+} from "../utils";
 import type {
   DefinedInitialDataBlockingInfiniteQueryOptions,
+  InfiniteQueryBlockingConfig,
   UndefinedInitialDataBlockingInfiniteQueryOptions,
   UseBlockingInfiniteQueryOptions,
 } from "./useBlockingInfiniteQuery.types";
@@ -37,18 +52,35 @@ import type {
  * @param options.getNextPageParam - Function to get the next page param
  * @param options.getPreviousPageParam - Function to get the previous page param (optional)
  * @param options.initialPageParam - Initial page parameter value
- * @param options.blockingConfig - Configuration for UI blocking behavior
+ * @param options.blockingConfig - Configuration for UI blocking behavior (optional when a
+ *   `BlockingRulesProvider` rule matches the query key)
  * @param options.blockingConfig.scope - Scope(s) to block (default: 'global')
  * @param options.blockingConfig.reason - Default blocking reason (default: 'Loading more data...')
  * @param options.blockingConfig.reasonOnLoading - Reason during initial load
  * @param options.blockingConfig.reasonOnFetching - Reason during page fetching
+ * @param options.blockingConfig.reasonOnRefetching - Reason during refetch (overrides `reasonOnFetching`)
+ * @param options.blockingConfig.reasonOnFetchingNextPage - Reason while the next page loads
+ * @param options.blockingConfig.reasonOnFetchingPreviousPage - Reason while the previous page loads
  * @param options.blockingConfig.reasonOnError - Reason during error state
+ * @param options.blockingConfig.reasonOnPaused - Reason while the fetch is paused offline
+ * @param options.blockingConfig.reasonOnRetrying - Reason while a failed fetch is retried (`{attempt}`, `{retryIn}`)
  * @param options.blockingConfig.priority - Priority level 0-100 (default: 10)
  * @param options.blockingConfig.timeout - Auto-remove blocker after N milliseconds
  * @param options.blockingConfig.onTimeout - Callback when timeout occurs
+ * @param options.blockingConfig.onTimeoutAction - `'unblock'`, `'cancel'` or `'error'` the query on timeout (default: 'unblock')
+ * @param options.blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param options.blockingConfig.minDuration - Keep the blocker for at least N milliseconds
  * @param options.blockingConfig.onLoading - Block during initial pending state (default: true)
  * @param options.blockingConfig.onFetching - Block during page fetching (default: false)
+ * @param options.blockingConfig.onRefetching - Block during refetch (default: `onFetching`)
+ * @param options.blockingConfig.onFetchingNextPage - Block while the next page loads (default: `onFetching`)
+ * @param options.blockingConfig.onFetchingPreviousPage - Block while the previous page loads (default: `onFetching`)
+ * @param options.blockingConfig.scopeOnFetchingNextPage - Scope while the next page loads (default: `scope`)
+ * @param options.blockingConfig.scopeOnFetchingPreviousPage - Scope while the previous page loads (default: `scope`)
  * @param options.blockingConfig.onError - Block during error state (default: false)
+ * @param options.blockingConfig.shouldBlockOnError - Decide per error whether `onError` blocks
+ * @param options.blockingConfig.onPaused - Keep blocking while the fetch is paused offline (default: true)
+ * @param options.blockingConfig.onRetrying - Keep blocking while a failed fetch is retried (default: true)
  *
  * @returns Infinite query result object from TanStack Query
  *
@@ -220,49 +252,104 @@ export function useBlockingInfiniteQuery<
   queryClient?: QueryClient
 ): UseInfiniteQueryResult<TData, TError> {
   const { blockingConfig, ...queryOptions } = options;
+  const client = useQueryClient(queryClient);
   const query = useInfiniteQuery(queryOptions, queryClient);
 
   const blockerId = useQueryBlockerId("infinite-query", options.queryKey);
+  const rule = useQueryBlockingRule([options.queryKey]);
+  const resolvedConfig = useResolvedBlockingConfig(
+    "infiniteQuery",
+    rule,
+    blockingConfig as InfiniteQueryBlockingConfig | undefined
+  );
 
+  const config: InfiniteQueryBlockingConfig = resolvedConfig ?? {};
   const {
-    scope,
     reason = "Loading more data...",
     reasonOnLoading,
-    reasonOnFetching,
     reasonOnError,
+    reasonOnPaused,
+    reasonOnRetrying,
     priority = 10,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
     onLoading = true,
-    onFetching = false,
     onError = false,
-  } = blockingConfig;
+    shouldBlockOnError,
+    onPaused = true,
+    onRetrying = true,
+    onTimeoutAction = "unblock",
+  } = config;
+
+  const { queryHash } = client.defaultQueryOptions(queryOptions);
+  const { actions, isCancelled } = useQueryBlockerActions(
+    queryHash,
+    query.fetchStatus,
+    query.refetch,
+    queryClient
+  );
 
-  const isFetchingButNotLoading =
-    query.isRefetching || query.isFetchingNextPage || query.isFetchingPreviousPage;
+  const fetching = getInfiniteFetchingState(query, config);
+  const isPaused = query.fetchStatus === "paused";
+  const isRetrying = query.fetchStatus === "fetching" && query.failureCount > 0;
 
   const shouldBlock =
-    (onLoading && query.isPending) ||
-    (onFetching && isFetchingButNotLoading) ||
-    (onError && query.isError);
+    resolvedConfig !== undefined &&
+    !isCancelled &&
+    (onPaused || !isPaused) &&
+    (onRetrying || !isRetrying) &&
+    ((onLoading && query.isPending) ||
+      fetching.shouldBlock ||
+      (onError && isBlockingError(query.isError, query.error, shouldBlockOnError)));
 
-  const currentReason = resolveBlockingReason({
-    defaultReason: reason,
-    stateReasons: [
-      { condition: query.isPending, reason: reasonOnLoading },
-      { condition: isFetchingButNotLoading, reason: reasonOnFetching },
-      { condition: query.isError, reason: reasonOnError },
-    ],
+  const retryCountdown = useRetryCountdown({
+    failureCount: query.failureCount,
+    failureReason: query.failureReason,
+    retryDelay: isRetrying ? client.defaultQueryOptions(queryOptions).retryDelay : undefined,
+    isRetrying,
+    isTicking: shouldBlock && isRetrying && reasonOnRetrying !== undefined,
   });
 
+  const currentReason = formatBlockingReason(
+    resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [
+          { condition: isPaused, reason: reasonOnPaused },
+          { condition: isRetrying, reason: reasonOnRetrying },
+          { condition: query.isPending, reason: reasonOnLoading },
+          ...fetching.stateReasons,
+          { condition: query.isError, reason: reasonOnError },
+        ],
+      },
+      query
+    ),
+    { ...retryCountdown }
+  );
+
+  const handleTimeout = useQueryTimeoutAction(
+    {
+      queryHash,
+      onTimeoutAction,
+      timeout,
+      onTimeout,
+    },
+    queryClient
+  );
+
   useBlockingManager({
     blockerId,
     shouldBlock,
-    scope,
+    scope: fetching.scope,
     reason: currentReason,
     priority,
     timeout,
-    onTimeout,
+    onTimeout: handleTimeout,
+    delay,
+    minDuration,
+    actions,
   });
 
   return query;
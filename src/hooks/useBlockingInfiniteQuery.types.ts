@@ -7,12 +7,23 @@ import type {
   UseInfiniteQueryOptions,
 } from "@tanstack/react-query";
 import type { BaseBlockingConfig } from "../types";
+import type {
+  QueryBlockingReason,
+  QueryErrorBlockingReason,
+  QueryTimeoutAction,
+} from "./useBlockingQuery.types";
 
 /**
  * Configuration for infinite query blocking with dynamic reasons.
- * Supports different messages for pending, fetching, and error states.
+ * Supports different messages for pending, fetching (per direction), paused, retrying, and error states.
+ * Every reason may be a function receiving the current query state; `data.pageParams`
+ * describes the loaded pages.
+ *
+ * @typeParam TData - The type of data returned by the query (usually `InfiniteData`)
+ * @typeParam TError - The type of error that can be thrown
  */
-export interface InfiniteQueryBlockingConfig extends BaseBlockingConfig {
+export interface InfiniteQueryBlockingConfig<TData = unknown, TError = unknown>
+  extends BaseBlockingConfig<QueryBlockingReason<TData, TError>> {
   /**
    * Whether to block during the initial pending state (default: true).
    * Set to false to skip blocking during the first data fetch.
@@ -21,28 +32,98 @@ export interface InfiniteQueryBlockingConfig extends BaseBlockingConfig {
   /**
    * Whether to block during background fetching or loading next/previous pages (default: false).
    * Set to true to block when refetching data or loading more pages.
+   * Shorthand default for `onRefetching`, `onFetchingNextPage` and `onFetchingPreviousPage`.
    */
   onFetching?: boolean;
+  /**
+   * Whether to block while all loaded pages are refetched in the background (default: `onFetching`).
+   */
+  onRefetching?: boolean;
+  /**
+   * Whether to block while the next page is loading (default: `onFetching`).
+   */
+  onFetchingNextPage?: boolean;
+  /**
+   * Whether to block while the previous page is loading (default: `onFetching`).
+   */
+  onFetchingPreviousPage?: boolean;
+  /**
+   * Scope(s) to block while the next page is loading, e.g. only the list footer (default: `scope`).
+   */
+  scopeOnFetchingNextPage?: string | ReadonlyArray<string>;
+  /**
+   * Scope(s) to block while the previous page is loading, e.g. only the list header (default: `scope`).
+   */
+  scopeOnFetchingPreviousPage?: string | ReadonlyArray<string>;
   /**
    * Whether to block on error (default: false).
    * Set to true to keep UI blocked when query fails.
    */
   onError?: boolean;
+  /**
+   * Decides per error whether `onError` blocks, e.g. to skip 404s or aborted requests
+   * and only keep the UI locked for server or validation failures (default: every error blocks).
+   */
+  shouldBlockOnError?: (error: TError) => boolean;
+  /**
+   * Whether to keep blocking while the fetch is paused because the network is offline (default: true).
+   * Set to false to unblock entirely until the connection is back.
+   */
+  onPaused?: boolean;
+  /**
+   * Whether to keep blocking while a failed fetch is retried (default: true).
+   * Set to false to unblock between retry attempts.
+   */
+  onRetrying?: boolean;
+  /**
+   * What happens to the request when the blocker times out (default: `'unblock'`).
+   * - `'unblock'`: only remove the blocker and call `onTimeout`; the fetch keeps running
+   * - `'cancel'`: also cancel the fetch, reverting the query to its previous state
+   * - `'error'`: cancel the fetch and fail the query with a `BlockingTimeoutError`
+   */
+  onTimeoutAction?: QueryTimeoutAction;
   /**
    * Message to show during the initial pending state.
    * Falls back to `reason` if not specified.
    */
-  reasonOnLoading?: string;
+  reasonOnLoading?: QueryBlockingReason<TData, TError>;
   /**
    * Message to show during background fetching or loading next/previous pages.
    * Falls back to `reason` if not specified.
    */
-  reasonOnFetching?: string;
+  reasonOnFetching?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show while all loaded pages are refetched.
+   * Falls back to `reasonOnFetching` / `reason` if not specified.
+   */
+  reasonOnRefetching?: QueryBlockingReason<TData, TError>;
   /**
-   * Message to show when query fails.
+   * Message to show while the next page is loading.
+   * Falls back to `reasonOnFetching` / `reason` if not specified.
+   */
+  reasonOnFetchingNextPage?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show while the previous page is loading.
+   * Falls back to `reasonOnFetching` / `reason` if not specified.
+   */
+  reasonOnFetchingPreviousPage?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show when query fails, e.g. `(query) => query.error.message`.
    * Falls back to `reason` if not specified.
    */
-  reasonOnError?: string;
+  reasonOnError?: QueryErrorBlockingReason<TData, TError>;
+  /**
+   * Message to show while the fetch is paused because the network is offline.
+   * Takes precedence over the other state reasons, which are used if not specified.
+   */
+  reasonOnPaused?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show while a failed fetch is retried.
+   * May contain `{attempt}` (upcoming attempt number) and `{retryIn}` (seconds until it starts,
+   * computed from `retryDelay`) placeholders, which count down in the blocker reason.
+   * Falls back to the other state reasons if not specified.
+   */
+  reasonOnRetrying?: QueryBlockingReason<TData, TError>;
 }
 
 /**
@@ -63,13 +144,14 @@ export interface UseBlockingInfiniteQueryOptions<
   TPageParam = unknown,
 > extends UseInfiniteQueryOptions<TQueryFnData, TError, TData, TQueryKey, TPageParam> {
   /**
-   * Configuration for UI blocking behavior
+   * Configuration for UI blocking behavior.
+   * Merged over the matching `BlockingRulesProvider` rule; optional when a rule covers the key.
    */
-  blockingConfig: InfiniteQueryBlockingConfig;
+  blockingConfig?: InfiniteQueryBlockingConfig<TData, TError>;
 }
 
-interface BlockingInfiniteQueryConfig {
-  blockingConfig: InfiniteQueryBlockingConfig;
+interface BlockingInfiniteQueryConfig<TData, TError> {
+  blockingConfig?: InfiniteQueryBlockingConfig<TData, TError>;
 }
 
 export type UndefinedInitialDataBlockingInfiniteQueryOptions<
@@ -85,7 +167,7 @@ export type UndefinedInitialDataBlockingInfiniteQueryOptions<
   TQueryKey,
   TPageParam
 > &
-  BlockingInfiniteQueryConfig;
+  BlockingInfiniteQueryConfig<TData, TError>;
 
 export type DefinedInitialDataBlockingInfiniteQueryOptions<
   TQueryFnData,
@@ -100,4 +182,4 @@ export type DefinedInitialDataBlockingInfiniteQueryOptions<
   TQueryKey,
   TPageParam
 > &
-  BlockingInfiniteQueryConfig;
+  BlockingInfiniteQueryConfig<TData, TError>;
@@ -0,0 +1,12 @@
+import type { BaseBlockingConfig } from "../types";
+
+/**
+ * Configuration for blocking while matching queries are fetching.
+ */
+export interface IsFetchingBlockingConfig extends BaseBlockingConfig {
+  /**
+   * Message for the blocker. `{count}` is replaced with the number of matching
+   * queries that are currently fetching (e.g. "Syncing {count} orders...").
+   */
+  reason?: string;
+}
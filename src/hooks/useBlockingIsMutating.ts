@@ -0,0 +1,77 @@
+import { type MutationFilters, type QueryClient, useIsMutating } from "@tanstack/react-query";
+import { useBlockingManager, useRandomBlockerId, useResolvedBlockingConfig } from "../internal";
+import { formatBlockingReason } from "../utils";
+import type { IsMutatingBlockingConfig } from "./useBlockingIsMutating.types";
+
+/**
+ * Blocks a scope while any mutation matching the filters is pending.
+ *
+ * Built on TanStack Query's `useIsMutating`, so the component does not need to own the
+ * mutations it watches. The `{count}` placeholder in `reason` is replaced with the number
+ * of matching pending mutations.
+ *
+ * Uses the `isMutating` entry of `BlockingDefaultsProvider`.
+ *
+ * @param filters - Mutation filters selecting the mutations to watch (same as `useIsMutating`)
+ * @param blockingConfig - Configuration for UI blocking behavior
+ * @param blockingConfig.scope - Scope(s) to block (default: 'global')
+ * @param blockingConfig.reason - Blocking reason, supports `{count}` (default: 'Saving changes...')
+ * @param blockingConfig.priority - Priority level 0-100 (default: 30)
+ * @param blockingConfig.timeout - Auto-remove blocker after N milliseconds
+ * @param blockingConfig.onTimeout - Callback when timeout occurs
+ * @param blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param blockingConfig.minDuration - Keep the blocker for at least N milliseconds
+ * @param queryClient - Optional QueryClient instance
+ * @returns Number of matching mutations that are pending
+ *
+ * @example
+ * ```tsx
+ * function OrdersLayout() {
+ *   useBlockingIsMutating(
+ *     { mutationKey: ['orders'] },
+ *     { scope: 'navigation', reason: 'Saving {count} orders...' }
+ *   );
+ *   return null;
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/useIsMutating | TanStack Query useIsMutating docs}
+ * @see {@link useBlockingIsFetching} for fetching queries
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingIsMutating(
+  filters: MutationFilters | undefined,
+  blockingConfig: IsMutatingBlockingConfig,
+  queryClient?: QueryClient
+): number {
+  const mutatingCount = useIsMutating(filters, queryClient);
+
+  const blockerId = useRandomBlockerId();
+  const resolvedConfig = useResolvedBlockingConfig("isMutating", undefined, blockingConfig);
+
+  const {
+    scope,
+    reason = "Saving changes...",
+    priority = 30,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  }: IsMutatingBlockingConfig = resolvedConfig ?? {};
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock: mutatingCount > 0,
+    scope,
+    reason: formatBlockingReason(reason, { count: mutatingCount }),
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  });
+
+  return mutatingCount;
+}
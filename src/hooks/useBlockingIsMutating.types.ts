@@ -0,0 +1,12 @@
+import type { BaseBlockingConfig } from "../types";
+
+/**
+ * Configuration for blocking while matching mutations are pending.
+ */
+export interface IsMutatingBlockingConfig extends BaseBlockingConfig {
+  /**
+   * Message for the blocker. `{count}` is replaced with the number of matching
+   * mutations that are currently pending (e.g. "Saving {count} orders...").
+   */
+  reason?: string;
+}
@@ -1,12 +1,34 @@
 import {
   type DefaultError,
   type QueryClient,
-  type UseMutationResult,
   useMutation,
+  useQueryClient,
 } from "@tanstack/react-query";
-import { useBlockingManager, useMutationBlockerId } from "../internal";
-import { resolveBlockingReason } from "../utils";
-import type { UseBlockingMutationOptions } from "./useBlockingMutation.types";
+import { useMemo } from "react";
+import {
+  useBlockingManager,
+  useBlockingManagers,
+  useMutationBlockerId,
+  useMutationBlockingRule,
+  useMutationInvocations,
+  useMutationSettling,
+  useResolvedBlockingConfig,
+  useRetryCountdown,
+  useSubmissionValue,
+} from "../internal";
+import {
+  formatBlockingReason,
+  isBlockingError,
+  resolveBlockingReason,
+  resolveVariablesValue,
+} from "../utils";
+import type { BlockerActions } from "../types";
+import type {
+  MutationBlockingConfig,
+  MutationBlockingReason,
+  UseBlockingMutationOptions,
+  UseBlockingMutationResult,
+} from "./useBlockingMutation.types";
 
 /**
  * A drop-in replacement for TanStack Query's `useMutation` with automatic UI blocking.
@@ -29,15 +51,26 @@ import type { UseBlockingMutationOptions } from "./useBlockingMutation.types";
  * @param options - Combined TanStack Query mutation options and blocking configuration
  * @param options.mutationFn - Function that performs the mutation (required)
  * @param options.mutationKey - Optional unique key for the mutation
- * @param options.blockingConfig - Configuration for UI blocking behavior
- * @param options.blockingConfig.scope - Scope(s) to block (default: 'global')
+ * @param options.blockingConfig - Configuration for UI blocking behavior (optional when a
+ *   `BlockingRulesProvider` rule matches the mutation key)
+ * @param options.blockingConfig.scope - Scope(s) to block, or a function of the variables (default: 'global')
  * @param options.blockingConfig.reason - Default blocking reason (default: 'Saving changes...')
  * @param options.blockingConfig.reasonOnPending - Reason during mutation (overrides `reason`)
  * @param options.blockingConfig.reasonOnError - Reason during error state (overrides `reason`)
- * @param options.blockingConfig.priority - Priority level 0-100 (default: 30)
+ * @param options.blockingConfig.reasonOnPaused - Reason while the mutation is paused offline
+ * @param options.blockingConfig.reasonOnRetrying - Reason while a failed mutation is retried (`{attempt}`, `{retryIn}`)
+ * @param options.blockingConfig.reasonOnSettling - Reason while waiting for `waitFor` after success
+ * @param options.blockingConfig.priority - Priority level 0-100, or a function of the variables (default: 30)
  * @param options.blockingConfig.timeout - Auto-remove blocker after N milliseconds
  * @param options.blockingConfig.onTimeout - Callback when timeout occurs
+ * @param options.blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param options.blockingConfig.minDuration - Keep the blocker for at least N milliseconds
  * @param options.blockingConfig.onError - Block during error state (default: false)
+ * @param options.blockingConfig.shouldBlockOnError - Decide per error whether `onError` blocks
+ * @param options.blockingConfig.onRetrying - Keep blocking while a failed mutation is retried (default: true)
+ * @param options.blockingConfig.perInvocation - Register one blocker per pending `mutate` call (default: false)
+ * @param options.blockingConfig.waitFor - Keep blocking after success until `'onSuccess'` promises
+ *   or refetches of queries matching `QueryFilters` finish
  *
  * @returns Mutation result object from TanStack Query (same as `useMutation`)
  *
@@ -217,33 +250,103 @@ export function useBlockingMutation<
 >(
   options: UseBlockingMutationOptions<TData, TError, TVariables, TOnMutateResult>,
   queryClient?: QueryClient
-): UseMutationResult<TData, TError, TVariables, TOnMutateResult> {
+): UseBlockingMutationResult<TData, TError, TVariables, TOnMutateResult> {
   const { blockingConfig, mutationKey, ...mutationOptions } = options;
+  const client = useQueryClient(queryClient);
   const mutation = useMutation({ mutationKey, ...mutationOptions }, queryClient);
 
   const blockerId = useMutationBlockerId("mutation", mutationKey);
+  const rule = useMutationBlockingRule(mutationKey);
+  const resolvedConfig = useResolvedBlockingConfig(
+    "mutation",
+    rule,
+    blockingConfig as MutationBlockingConfig | undefined
+  );
 
   const {
-    scope,
+    scope: scopeOption,
     reason = "Saving changes...",
     reasonOnPending,
     reasonOnError,
-    priority = 30,
+    reasonOnPaused,
+    reasonOnRetrying,
+    reasonOnSettling,
+    priority: priorityOption,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
     onError = false,
-  } = blockingConfig;
+    shouldBlockOnError,
+    onRetrying = true,
+    perInvocation = false,
+    waitFor,
+  }: MutationBlockingConfig<TData, TError, TVariables> = resolvedConfig ?? {};
+
+  const { variables, submittedAt } = mutation;
+  const scope = useSubmissionValue(scopeOption, variables, submittedAt);
+  const priority = useSubmissionValue(priorityOption, variables, submittedAt) ?? 30;
+
+  const settling = useMutationSettling(mutation, waitFor, queryClient);
+  const { invocations, dismiss, mutate, mutateAsync } = useMutationInvocations(
+    settling,
+    perInvocation,
+    queryClient
+  );
+  const { isSettling } = settling;
+
+  const isRetrying = mutation.isPending && !mutation.isPaused && mutation.failureCount > 0;
 
-  const shouldBlock = mutation.isPending || (onError && mutation.isError);
+  const shouldBlock =
+    resolvedConfig !== undefined &&
+    (onRetrying || !isRetrying) &&
+    ((!perInvocation && mutation.isPending) ||
+      isSettling ||
+      (onError && isBlockingError(mutation.isError, mutation.error, shouldBlockOnError)));
 
-  const currentReason = resolveBlockingReason({
-    defaultReason: reason,
-    stateReasons: [
-      { condition: mutation.isPending, reason: reasonOnPending },
-      { condition: mutation.isError, reason: reasonOnError },
-    ],
+  const retryCountdown = useRetryCountdown({
+    failureCount: mutation.failureCount,
+    failureReason: mutation.failureReason,
+    retryDelay: isRetrying
+      ? client.defaultMutationOptions({ mutationKey, ...mutationOptions }).retryDelay
+      : undefined,
+    isRetrying,
+    isTicking:
+      resolvedConfig !== undefined && onRetrying && isRetrying && reasonOnRetrying !== undefined,
   });
 
+  const currentReason = formatBlockingReason(
+    resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [
+          { condition: mutation.isPaused, reason: reasonOnPaused },
+          { condition: isRetrying, reason: reasonOnRetrying },
+          { condition: mutation.isPending, reason: reasonOnPending },
+          { condition: isSettling, reason: reasonOnSettling },
+          // Only selected in the error state, where `error` is always set.
+          {
+            condition: mutation.isError,
+            reason: reasonOnError as MutationBlockingReason<TData, TError, TVariables> | undefined,
+          },
+        ],
+      },
+      mutation
+    ),
+    { ...retryCountdown }
+  );
+
+  const { reset } = mutation;
+  const actions = useMemo<BlockerActions>(
+    () => ({
+      cancel: reset,
+      retry: () => {
+        mutate(variables as TVariables);
+      },
+    }),
+    [reset, mutate, variables]
+  );
+
   useBlockingManager({
     blockerId,
     shouldBlock,
@@ -252,7 +355,65 @@ export function useBlockingMutation<
     priority,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
+    actions,
   });
 
-  return mutation;
+  // Actions of each invocation: dismiss it (the request keeps running) or submit it again.
+  const invocationActions = useMemo(
+    () =>
+      invocations.map(({ mutationId, state }) => ({
+        cancel: () => {
+          dismiss(mutationId);
+        },
+        retry: () => {
+          dismiss(mutationId);
+          mutate(state.variables as TVariables);
+        },
+      })),
+    [invocations, dismiss, mutate]
+  );
+
+  // One blocker per pending invocation, resolved from its own variables and state.
+  useBlockingManagers(
+    invocations.map(({ mutationId, state }, index) => {
+      const isInvocationRetrying = !state.isPaused && state.failureCount > 0;
+      const invocationVariables = state.variables as TVariables;
+
+      return {
+        blockerId: `${blockerId}-${String(mutationId)}`,
+        shouldBlock: onRetrying || !isInvocationRetrying,
+        scope: scopeOption && resolveVariablesValue(scopeOption, invocationVariables),
+        reason: formatBlockingReason(
+          resolveBlockingReason(
+            {
+              defaultReason: reason,
+              stateReasons: [
+                { condition: state.isPaused, reason: reasonOnPaused },
+                { condition: isInvocationRetrying, reason: reasonOnRetrying },
+                { condition: true, reason: reasonOnPending },
+              ],
+            },
+            state
+          ),
+          // The countdown is only tracked for the latest invocation.
+          state.submittedAt === submittedAt
+            ? { ...retryCountdown }
+            : { attempt: state.failureCount + 1 }
+        ),
+        priority:
+          priorityOption === undefined
+            ? 30
+            : resolveVariablesValue(priorityOption, invocationVariables),
+        timeout,
+        onTimeout,
+        delay,
+        minDuration,
+        actions: invocationActions[index],
+      };
+    })
+  );
+
+  return waitFor === "onSuccess" || perInvocation ? { ...mutation, mutate, mutateAsync } : mutation;
 }
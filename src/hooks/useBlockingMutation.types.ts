@@ -1,12 +1,89 @@
-import type { DefaultError, UseMutationOptions } from "@tanstack/react-query";
-import type { BaseBlockingConfig } from "../types";
+import type {
+  DefaultError,
+  MutateOptions,
+  MutationState,
+  QueryFilters,
+  UseMutationOptions,
+  UseMutationResult,
+} from "@tanstack/react-query";
+import type { BaseBlockingConfig, BlockingReason } from "../types";
+
+/**
+ * Mutation state passed to function reasons.
+ * A subset of the mutation result that is also available from the MutationCache.
+ *
+ * @typeParam TData - The type of data returned by the mutation
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TVariables - The type of variables passed to the mutation
+ */
+export type MutationBlockingState<TData = unknown, TError = unknown, TVariables = unknown> = Pick<
+  MutationState<TData, TError, TVariables>,
+  "data" | "error" | "failureCount" | "failureReason" | "isPaused" | "status" | "variables"
+>;
+
+/**
+ * Follow-up work a mutation keeps blocking for after it succeeds.
+ * - `'onSuccess'` - until the promise returned by the `onSuccess` callback passed to
+ *   `mutate` / `mutateAsync` settles (the hook-level `onSuccess` is already awaited by TanStack Query)
+ * - `QueryFilters` - until the queries matching the filters that are fetching when the mutation
+ *   succeeds (e.g. after a non-awaited `invalidateQueries`) have finished
+ */
+export type MutationWaitFor = "onSuccess" | QueryFilters;
+
+/**
+ * Static reason or function of the current mutation state.
+ */
+export type MutationBlockingReason<
+  TData = unknown,
+  TError = unknown,
+  TVariables = unknown,
+> = BlockingReason<MutationBlockingState<TData, TError, TVariables>>;
+
+/**
+ * Static reason or function of the state of a failed mutation, whose `error` is always set.
+ */
+export type MutationErrorBlockingReason<
+  TData = unknown,
+  TError = unknown,
+  TVariables = unknown,
+> = BlockingReason<MutationBlockingState<TData, TError, TVariables> & { error: TError }>;
+
+/**
+ * Static value or function of the mutation variables.
+ * Functions are evaluated for each `mutate` call, so one hook instance can target
+ * different scopes (e.g. a table row) per invocation.
+ *
+ * @typeParam TValue - Type of the resolved value
+ * @typeParam TVariables - The type of variables passed to the mutation
+ */
+export type MutationVariablesValue<TValue, TVariables = unknown> =
+  | TValue
+  | ((variables: TVariables) => TValue);
+
+/**
+ * Base config with `scope` and `priority` widened to functions of the mutation variables.
+ */
+type MutationBaseBlockingConfig<TData, TError, TVariables> = Omit<
+  BaseBlockingConfig<MutationBlockingReason<TData, TError, TVariables>>,
+  "scope" | "priority"
+>;
 
 /**
  * Configuration when onError is false (default).
  * Only blocks during pending state.
  * Uses single reason or reasonOnPending for the pending state.
  */
-interface MutationBlockingConfigWithoutError extends BaseBlockingConfig {
+interface MutationBlockingConfigWithoutError<TData, TError, TVariables>
+  extends MutationBaseBlockingConfig<TData, TError, TVariables> {
+  /**
+   * Scope(s) to block, or a function of the mutation variables evaluated for each submission
+   * (e.g. `(row) => \`row-${row.id}\`` to block only the saved table row).
+   */
+  scope?: MutationVariablesValue<string | ReadonlyArray<string>, TVariables>;
+  /**
+   * Priority level for this blocker, or a function of the mutation variables (default: 30).
+   */
+  priority?: MutationVariablesValue<number, TVariables>;
   /**
    * Whether to block on error (default: false).
    * When false, UI unblocks immediately after mutation completes (success or error).
@@ -16,17 +93,56 @@ interface MutationBlockingConfigWithoutError extends BaseBlockingConfig {
    * Default message to show during mutation. Falls back to "Saving changes..." if not specified.
    * Can use reasonOnPending for more specificity.
    */
-  reason?: string;
+  reason?: MutationBlockingReason<TData, TError, TVariables>;
   /**
    * Message to show while mutation is pending.
    * Falls back to `reason` if not specified.
    */
-  reasonOnPending?: string;
+  reasonOnPending?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Message to show while the mutation is paused because the network is offline.
+   * Falls back to `reasonOnPending` / `reason` if not specified.
+   */
+  reasonOnPaused?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Whether to keep blocking while a failed mutation is retried (default: true).
+   * Set to false to unblock between retry attempts.
+   */
+  onRetrying?: boolean;
+  /**
+   * Message to show while a failed mutation is retried.
+   * May contain `{attempt}` (upcoming attempt number) and `{retryIn}` (seconds until it starts,
+   * computed from `retryDelay`) placeholders, which count down in the blocker reason.
+   * Falls back to the other state reasons if not specified.
+   */
+  reasonOnRetrying?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Register one blocker per pending `mutate` call instead of following only the latest one
+   * (default: false). Overlapping invocations then each hold their own blocker, with `scope`,
+   * `priority` and reasons resolved from their own variables, until they individually settle.
+   * The error and `waitFor` phases still follow the latest invocation.
+   */
+  perInvocation?: boolean;
+  /**
+   * Follow-up work to keep blocking for after the mutation succeeds (default: none).
+   * Use it when `onSuccess` triggers refetches that the UI should not show stale data during.
+   */
+  waitFor?: MutationWaitFor;
+  /**
+   * Message to show while waiting for `waitFor` after the mutation succeeded.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnSettling?: MutationBlockingReason<TData, TError, TVariables>;
   /**
    * Not available when onError is false.
    * Type system prevents using this field.
    */
   reasonOnError?: never;
+  /**
+   * Not available when onError is false.
+   * Type system prevents using this field.
+   */
+  shouldBlockOnError?: never;
 }
 
 /**
@@ -34,27 +150,76 @@ interface MutationBlockingConfigWithoutError extends BaseBlockingConfig {
  * Blocks during both pending and error states.
  * Can use different reasons for each state.
  */
-interface MutationBlockingConfigWithError extends BaseBlockingConfig {
+interface MutationBlockingConfigWithError<TData, TError, TVariables>
+  extends MutationBaseBlockingConfig<TData, TError, TVariables> {
+  /**
+   * Scope(s) to block, or a function of the mutation variables evaluated for each submission
+   * (e.g. `(row) => \`row-${row.id}\`` to block only the saved table row).
+   */
+  scope?: MutationVariablesValue<string | ReadonlyArray<string>, TVariables>;
+  /**
+   * Priority level for this blocker, or a function of the mutation variables (default: 30).
+   */
+  priority?: MutationVariablesValue<number, TVariables>;
   /**
    * Whether to block on error.
    * When true, UI remains blocked if mutation fails until user dismisses the error.
    */
   onError: true;
+  /**
+   * Decides per error whether the failed mutation keeps blocking, e.g. to skip aborted requests
+   * and only stay locked for server or validation failures (default: every error blocks).
+   */
+  shouldBlockOnError?: (error: TError) => boolean;
   /**
    * Default message for both pending and error states. Falls back to "Saving changes..." if not specified.
    * Can be overridden by reasonOnPending and reasonOnError.
    */
-  reason?: string;
+  reason?: MutationBlockingReason<TData, TError, TVariables>;
   /**
    * Message to show while mutation is pending.
    * Falls back to `reason` if not specified.
    */
-  reasonOnPending?: string;
+  reasonOnPending?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Message to show while the mutation is paused because the network is offline.
+   * Falls back to `reasonOnPending` / `reason` if not specified.
+   */
+  reasonOnPaused?: MutationBlockingReason<TData, TError, TVariables>;
   /**
-   * Message to show when mutation fails.
+   * Whether to keep blocking while a failed mutation is retried (default: true).
+   * Set to false to unblock between retry attempts.
+   */
+  onRetrying?: boolean;
+  /**
+   * Message to show while a failed mutation is retried.
+   * May contain `{attempt}` (upcoming attempt number) and `{retryIn}` (seconds until it starts,
+   * computed from `retryDelay`) placeholders, which count down in the blocker reason.
+   * Falls back to the other state reasons if not specified.
+   */
+  reasonOnRetrying?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Register one blocker per pending `mutate` call instead of following only the latest one
+   * (default: false). Overlapping invocations then each hold their own blocker, with `scope`,
+   * `priority` and reasons resolved from their own variables, until they individually settle.
+   * The error and `waitFor` phases still follow the latest invocation.
+   */
+  perInvocation?: boolean;
+  /**
+   * Follow-up work to keep blocking for after the mutation succeeds (default: none).
+   * Use it when `onSuccess` triggers refetches that the UI should not show stale data during.
+   */
+  waitFor?: MutationWaitFor;
+  /**
+   * Message to show while waiting for `waitFor` after the mutation succeeded.
    * Falls back to `reason` if not specified.
    */
-  reasonOnError?: string;
+  reasonOnSettling?: MutationBlockingReason<TData, TError, TVariables>;
+  /**
+   * Message to show when mutation fails, e.g. `(mutation) => mutation.error.message`.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnError?: MutationErrorBlockingReason<TData, TError, TVariables>;
 }
 
 /**
@@ -63,10 +228,17 @@ interface MutationBlockingConfigWithError extends BaseBlockingConfig {
  *
  * Use `onError: false` (or omit) to only block during mutation execution.
  * Use `onError: true` to also block when mutation fails.
+ * Every reason may be a function receiving the current mutation state, e.g.
+ * `(mutation) => \`Saving invoice #${mutation.variables?.id}...\``, and `scope` / `priority`
+ * may be functions of the mutation variables.
+ *
+ * @typeParam TData - The type of data returned by the mutation
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TVariables - The type of variables passed to the mutation
  */
-export type MutationBlockingConfig =
-  | MutationBlockingConfigWithoutError
-  | MutationBlockingConfigWithError;
+export type MutationBlockingConfig<TData = unknown, TError = unknown, TVariables = unknown> =
+  | MutationBlockingConfigWithoutError<TData, TError, TVariables>
+  | MutationBlockingConfigWithError<TData, TError, TVariables>;
 
 /**
  * Options for useBlockingMutation hook.
@@ -85,6 +257,60 @@ export interface UseBlockingMutationOptions<
 > extends UseMutationOptions<TData, TError, TVariables, TOnMutateResult> {
   /**
    * Configuration for UI blocking behavior during mutation execution.
+   * Merged over the matching `BlockingRulesProvider` rule; optional when a rule covers the key.
    */
-  blockingConfig: MutationBlockingConfig;
+  blockingConfig?: MutationBlockingConfig<TData, TError, TVariables>;
 }
+
+/**
+ * Options accepted by the `mutate` / `mutateAsync` functions of `useBlockingMutation`.
+ * Same as TanStack Query's `MutateOptions`, except that `onSuccess` may return a promise,
+ * which keeps the mutation blocked until it settles when `waitFor` is `'onSuccess'`.
+ *
+ * @typeParam TData - The type of data returned by the mutation
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TVariables - The type of variables passed to the mutation
+ * @typeParam TOnMutateResult - The type returned by `onMutate`
+ */
+export type BlockingMutateOptions<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+> = Omit<MutateOptions<TData, TError, TVariables, TOnMutateResult>, "onSuccess"> & {
+  onSuccess?: (
+    ...args: Parameters<
+      NonNullable<MutateOptions<TData, TError, TVariables, TOnMutateResult>["onSuccess"]>
+    >
+  ) => unknown;
+};
+
+/**
+ * Result of useBlockingMutation hook.
+ * TanStack Query's `UseMutationResult` whose `mutate` / `mutateAsync` accept `BlockingMutateOptions`.
+ *
+ * @typeParam TData - The type of data returned by the mutation
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TVariables - The type of variables passed to the mutation
+ * @typeParam TOnMutateResult - The type returned by `onMutate`
+ */
+export type UseBlockingMutationResult<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+> =
+  UseMutationResult<TData, TError, TVariables, TOnMutateResult> extends infer TResult
+    ? TResult extends unknown
+      ? Omit<TResult, "mutate" | "mutateAsync"> & {
+          mutate: (
+            variables: TVariables,
+            options?: BlockingMutateOptions<TData, TError, TVariables, TOnMutateResult>
+          ) => void;
+          mutateAsync: (
+            variables: TVariables,
+            options?: BlockingMutateOptions<TData, TError, TVariables, TOnMutateResult>
+          ) => Promise<TData>;
+        }
+      : never
+    : never;
@@ -0,0 +1,141 @@
+import {
+  type DefaultError,
+  type MutationFilters,
+  type MutationState,
+  type QueryClient,
+  useMutationState,
+} from "@tanstack/react-query";
+import { useBlockingManager, useRandomBlockerId, useResolvedBlockingConfig } from "../internal";
+import { resolveBlockingReason } from "../utils";
+import type {
+  MutationStateBlockingConfig,
+  MutationStateReason,
+} from "./useBlockingMutationState.types";
+
+function resolveMutationStateReason<TVariables>(
+  reason: MutationStateReason<TVariables> | undefined,
+  variables: TVariables | undefined
+): string | undefined {
+  return typeof reason === "function" ? reason(variables) : reason;
+}
+
+/**
+ * Blocks a scope while any mutation matching the filters is pending (or, optionally, errored).
+ *
+ * Built on TanStack Query's `useMutationState`, so the blocker can live in a different component
+ * than the one that fires the mutation - e.g. the page stays blocked while a modal saves.
+ * Reasons can be functions of the mutation's variables; they are resolved from the most
+ * recently submitted matching mutation.
+ *
+ * Uses the `mutationState` entry of `BlockingDefaultsProvider`.
+ *
+ * @typeParam TVariables - The type of variables passed to the matching mutations
+ * @typeParam TError - The type of error that can be thrown
+ *
+ * @param filters - Mutation filters selecting the mutations to watch (same as `useMutationState`)
+ * @param blockingConfig - Configuration for UI blocking behavior
+ * @param blockingConfig.scope - Scope(s) to block (default: 'global')
+ * @param blockingConfig.reason - Default blocking reason (default: 'Saving changes...')
+ * @param blockingConfig.reasonOnPending - Reason (or function of variables) while pending
+ * @param blockingConfig.reasonOnError - Reason (or function of variables) while errored
+ * @param blockingConfig.priority - Priority level 0-100 (default: 30)
+ * @param blockingConfig.timeout - Auto-remove blocker after N milliseconds
+ * @param blockingConfig.onTimeout - Callback when timeout occurs
+ * @param blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param blockingConfig.minDuration - Keep the blocker for at least N milliseconds
+ * @param blockingConfig.onError - Block while a matching mutation is errored (default: false)
+ * @param queryClient - Optional QueryClient instance
+ * @returns States of all mutations matching the filters
+ *
+ * @example
+ * ```tsx
+ * function OrderPage() {
+ *   useBlockingMutationState<{ orderId: string }>(
+ *     { mutationKey: ['orders', 'update'] },
+ *     {
+ *       scope: 'order-page',
+ *       reasonOnPending: (variables) => `Saving order ${variables?.orderId ?? ''}...`,
+ *     }
+ *   );
+ *   return <EditOrderModal />; // fires useMutation({ mutationKey: ['orders', 'update'] })
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/useMutationState | TanStack Query useMutationState docs}
+ * @see {@link useBlockingIsMutating} for counting pending mutations
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingMutationState<TVariables = unknown, TError = DefaultError>(
+  filters: MutationFilters | undefined,
+  blockingConfig: MutationStateBlockingConfig<TVariables>,
+  queryClient?: QueryClient
+): Array<MutationState<unknown, TError, TVariables>> {
+  const mutations = useMutationState(
+    {
+      filters,
+      select: (mutation) => mutation.state as MutationState<unknown, TError, TVariables>,
+    },
+    queryClient
+  );
+
+  const blockerId = useRandomBlockerId();
+  const resolvedConfig = useResolvedBlockingConfig(
+    "mutationState",
+    undefined,
+    blockingConfig as MutationStateBlockingConfig
+  );
+
+  const {
+    scope,
+    reason = "Saving changes...",
+    reasonOnPending,
+    reasonOnError,
+    priority = 30,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    onError = false,
+  }: MutationStateBlockingConfig<TVariables> = resolvedConfig ?? {};
+
+  // MutationCache keeps mutations in submission order, so the last match is the most recent one.
+  const latestFirst = [...mutations].reverse();
+  const pendingMutation = latestFirst.find((mutation) => mutation.status === "pending");
+  // Only the most recent submission decides the error state, so a successful retry unblocks.
+  const errorMutation = latestFirst.slice(0, 1).find((mutation) => mutation.status === "error");
+
+  const isPending = pendingMutation !== undefined;
+  const isError = errorMutation !== undefined;
+
+  const shouldBlock = isPending || (onError && isError);
+
+  const currentReason = resolveBlockingReason({
+    defaultReason: reason,
+    stateReasons: [
+      {
+        condition: isPending,
+        reason: resolveMutationStateReason(reasonOnPending, pendingMutation?.variables),
+      },
+      {
+        condition: isError,
+        reason: resolveMutationStateReason(reasonOnError, errorMutation?.variables),
+      },
+    ],
+  });
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock,
+    scope,
+    reason: currentReason,
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  });
+
+  return mutations;
+}
@@ -0,0 +1,35 @@
+import type { BaseBlockingConfig } from "../types";
+
+/**
+ * Blocking reason for mutation-state blocking.
+ * Either a fixed message or a function deriving the message from the mutation's variables.
+ *
+ * @typeParam TVariables - The type of variables passed to the mutation
+ */
+export type MutationStateReason<TVariables = unknown> =
+  | string
+  | ((variables: TVariables | undefined) => string);
+
+/**
+ * Configuration for blocking from the MutationCache.
+ * Reasons are resolved from the most recently submitted matching mutation.
+ *
+ * @typeParam TVariables - The type of variables passed to the matching mutations
+ */
+export interface MutationStateBlockingConfig<TVariables = unknown> extends BaseBlockingConfig {
+  /**
+   * Whether to keep blocking while the latest matching mutation is in the error state (default: false).
+   * Blocks until a newer matching mutation is submitted or the errored one leaves the MutationCache.
+   */
+  onError?: boolean;
+  /**
+   * Message to show while a matching mutation is pending.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnPending?: MutationStateReason<TVariables>;
+  /**
+   * Message to show while a matching mutation is in the error state.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnError?: MutationStateReason<TVariables>;
+}
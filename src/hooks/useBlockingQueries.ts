@@ -1,38 +1,149 @@
-import { type QueriesResults, type QueryClient, useQueries } from "@tanstack/react-query";
-import { useBlockingManager, useRandomBlockerId } from "../internal";
-import { resolveBlockingReason } from "../utils";
-import type { BlockingQueriesInput, QueriesBlockingConfig } from "./useBlockingQueries.types";
+import {
+  type QueriesOptions,
+  type QueriesResults,
+  type QueryClient,
+  type QueryObserverResult,
+  hashKey,
+  useIsRestoring,
+  useQueries,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useId } from "react";
+import {
+  useBlockingManager,
+  useBlockingManagers,
+  useQueriesBlockerActions,
+  useQueryBlockingRule,
+  useRandomBlockerId,
+  useResolvedBlockingConfig,
+} from "../internal";
+import { useBlockingDefaults } from "../providers";
+import {
+  countQueryStates,
+  formatBlockingReason,
+  getQueriesErrorState,
+  isAggregateMet,
+  isBlockingError,
+  mergeBlockingConfig,
+  resolveBlockingReason,
+} from "../utils";
+import type { UseBlockingManagerOptions } from "../internal/useBlockingManager.types";
+import type {
+  BlockingQueriesInput,
+  QueriesBlockingConfig,
+  QueriesEntryBlockingConfig,
+  UseBlockingQueriesOptions,
+} from "./useBlockingQueries.types";
+
+/**
+ * Resolves the blocker of a single `useBlockingQueries` entry.
+ * Mirrors `useBlockingQuery`, using the entry's own `blockingConfig` on top of query defaults.
+ */
+function resolveEntryBlocker(
+  blockerId: string,
+  blockingConfig: QueriesEntryBlockingConfig,
+  result: QueryObserverResult,
+  isRestoring: boolean
+): UseBlockingManagerOptions {
+  const {
+    scope,
+    reason = "Loading data...",
+    reasonOnLoading,
+    reasonOnFetching,
+    reasonOnError,
+    reasonOnRestoring,
+    reasonOnPaused,
+    priority = 10,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    onLoading = true,
+    onFetching = false,
+    onError = false,
+    shouldBlockOnError,
+    onRestoring = false,
+    onPaused = true,
+  } = blockingConfig;
+
+  const isBlockedByRestore = onRestoring && isRestoring;
+  const isPaused = result.fetchStatus === "paused";
+
+  return {
+    blockerId,
+    shouldBlock:
+      isBlockedByRestore ||
+      ((onPaused || !isPaused) &&
+        ((onLoading && result.isPending) ||
+          (onFetching && result.isRefetching) ||
+          (onError && isBlockingError(result.isError, result.error, shouldBlockOnError)))),
+    scope,
+    reason: resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [
+          { condition: isBlockedByRestore, reason: reasonOnRestoring },
+          { condition: isPaused, reason: reasonOnPaused },
+          { condition: result.isPending, reason: reasonOnLoading },
+          { condition: result.isRefetching, reason: reasonOnFetching },
+          { condition: result.isError, reason: reasonOnError },
+        ],
+      },
+      result
+    ),
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  };
+}
 
 /**
  * A wrapper around TanStack Query's `useQueries` for parallel queries with automatic UI blocking.
  *
  * This hook wraps TanStack Query's `useQueries` to run multiple queries in parallel while
  * automatically managing UI blocking based on the combined state of all queries. It blocks when
- * ANY of the queries meet the blocking conditions (pending, refetching, error).
+ * ANY of the queries meet the blocking conditions (pending, refetching, error); use `aggregate`
+ * to require all queries or a minimum number of them instead.
  *
  * This is ideal for loading data from multiple sources simultaneously, such as loading
  * user profile, posts, and comments all at once for a dashboard.
  *
  * By default, blocks when ANY query is pending but not when queries are refetching in the background.
  *
+ * Each entry may also carry its own `blockingConfig` (same shape as `useBlockingQuery`), which
+ * registers a separate blocker driven by that query only. This lets one hook block several
+ * panels independently while the second argument remains the shared blocker.
+ *
  * @typeParam TQueryFnData - The type of data returned by the query function
  * @typeParam TError - The type of error that can be thrown (default: Error)
  * @typeParam TData - The type of data returned by the hook (default: TQueryFnData)
  * @typeParam TQueryKey - The type of the query key (default: QueryKey)
  *
- * @param queries - Array of query option objects (same as TanStack Query `useQueries`)
- * @param blockingConfig - Shared blocking configuration for all queries
+ * @param queries - Array of query option objects (same as TanStack Query `useQueries`),
+ *   each with an optional per-query `blockingConfig`
+ * @param blockingConfig - Shared blocking configuration for all queries (optional when a
+ *   `BlockingRulesProvider` rule matches one of the query keys; the first match is used)
  * @param blockingConfig.scope - Scope(s) to block (default: 'global')
  * @param blockingConfig.reason - Default blocking reason (default: 'Loading queries...')
  * @param blockingConfig.reasonOnLoading - Reason when ANY query is pending
  * @param blockingConfig.reasonOnFetching - Reason when ANY query is refetching
  * @param blockingConfig.reasonOnError - Reason when ANY query has an error
+ * @param blockingConfig.reasonOnPaused - Reason when ANY query is paused while offline
  * @param blockingConfig.priority - Priority level 0-100 (default: 10)
  * @param blockingConfig.timeout - Auto-remove blocker after N milliseconds
  * @param blockingConfig.onTimeout - Callback when timeout occurs
+ * @param blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param blockingConfig.minDuration - Keep the blocker for at least N milliseconds
  * @param blockingConfig.onLoading - Block when ANY query is pending (default: true)
  * @param blockingConfig.onFetching - Block when ANY query is refetching (default: false)
  * @param blockingConfig.onError - Block when ANY query has error (default: false)
+ * @param blockingConfig.shouldBlockOnError - Decide per failed query whether it counts towards `onError`
+ * @param blockingConfig.onPaused - Keep blocking when ANY query is paused while offline (default: true)
+ * @param blockingConfig.aggregate - How many queries must match a state to block:
+ *   'any', 'all' or `{ atLeast: n }` (default: 'any'). Reasons may use the `{loading}`,
+ *   `{fetching}`, `{error}`, `{settled}` and `{total}` placeholders.
  *
  * @returns Array of query result objects (same as TanStack Query `useQueries`)
  *
@@ -154,6 +265,39 @@ import type { BlockingQueriesInput, QueriesBlockingConfig } from "./useBlockingQ
  * }
  * ```
  *
+ * @example
+ * Progress reason - block until all sources settle
+ * ```ts
+ * useBlockingQueries(sources.map(toQueryOptions), {
+ *   scope: 'report',
+ *   reasonOnLoading: 'Loaded {settled} of {total} sources...',
+ * });
+ * // blocker reason updates as each query completes:
+ * // "Loaded 0 of 3 sources..." -> "Loaded 1 of 3 sources..." -> ...
+ * ```
+ *
+ * @example
+ * Per-query blockers - block panels independently
+ * ```ts
+ * function DashboardPanels() {
+ *   const [user, stats] = useBlockingQueries([
+ *     {
+ *       queryKey: ['user'],
+ *       queryFn: fetchUser,
+ *       blockingConfig: { scope: 'profile-panel', reasonOnLoading: 'Loading profile...' },
+ *     },
+ *     {
+ *       queryKey: ['stats'],
+ *       queryFn: fetchStats,
+ *       blockingConfig: { scope: 'stats-panel', reasonOnLoading: 'Loading stats...' },
+ *     },
+ *   ]);
+ *   // 'profile-panel' unblocks as soon as the user query resolves,
+ *   // regardless of the stats query
+ *   return null;
+ * }
+ * ```
+ *
  * @see {@link https://tanstack.com/query/latest/docs/react/reference/useQueries | TanStack Query useQueries docs}
  * @see {@link useBlockingQuery} for single queries
  * @see {@link useBlockingMutation} for mutations
@@ -161,18 +305,42 @@ import type { BlockingQueriesInput, QueriesBlockingConfig } from "./useBlockingQ
  * @public
  * @since 0.2.0
  */
-export function useBlockingQueries<
-  T extends Array<unknown>,
->(
+export function useBlockingQueries<T extends Array<unknown>>(
   queries: BlockingQueriesInput<T>,
-  blockingConfig: QueriesBlockingConfig,
+  blockingConfig?: QueriesBlockingConfig,
   queryClient?: QueryClient
 ): QueriesResults<T> {
-  const results = useQueries({
-    queries,
-  }, queryClient);
+  const entries = queries as ReadonlyArray<UseBlockingQueriesOptions>;
+  const queryOptions = entries.map(({ blockingConfig: _entryConfig, ...options }) => options);
+  const results = useQueries(
+    {
+      queries: queryOptions as unknown as readonly [...QueriesOptions<T>],
+    },
+    queryClient
+  );
+  const client = useQueryClient(queryClient);
+  const isRestoring = useIsRestoring();
+
+  const queryResults = results as ReadonlyArray<QueryObserverResult>;
+  const queryHashes = queryOptions.map((options) => client.defaultQueryOptions(options).queryHash);
+  const { actions, entryActions, cancelledHashes } = useQueriesBlockerActions(
+    queryResults.map(({ fetchStatus, refetch }, index) => ({
+      queryHash: queryHashes[index],
+      fetchStatus,
+      refetch,
+    })),
+    queryClient
+  );
+  // Cancelled queries stop counting towards the shared blocker until they fetch again.
+  const activeResults = queryResults.filter(
+    (_result, index) => !cancelledHashes.has(queryHashes[index])
+  );
 
   const blockerId = useRandomBlockerId();
+  const instanceId = useId();
+  const queryDefaults = useBlockingDefaults().query;
+  const rule = useQueryBlockingRule(entries.map((query) => query.queryKey));
+  const resolvedConfig = useResolvedBlockingConfig("queries", rule, blockingConfig);
 
   const {
     scope,
@@ -180,31 +348,44 @@ export function useBlockingQueries<
     reasonOnLoading,
     reasonOnFetching,
     reasonOnError,
+    reasonOnPaused,
     priority = 10,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
     onLoading = true,
     onFetching = false,
     onError = false,
-  } = blockingConfig;
+    onPaused = true,
+    shouldBlockOnError,
+    aggregate,
+  }: QueriesBlockingConfig = resolvedConfig ?? {};
 
-  const loadingCount = results.filter((r) => r.isPending).length;
-  const fetchingCount = results.filter((r) => r.isRefetching).length;
-  const errorCount = results.filter((r) => r.isError).length;
+  const counts = countQueryStates(activeResults);
+  const isLoading = isAggregateMet(counts.loading, counts.total, aggregate);
+  const isFetching = isAggregateMet(counts.fetching, counts.total, aggregate);
+  const errorState = getQueriesErrorState(activeResults, shouldBlockOnError, reasonOnError);
+  const isError = isAggregateMet(errorState.count, counts.total, aggregate);
+  const isPaused = isAggregateMet(counts.paused, counts.total, aggregate);
 
   const shouldBlock =
-    (onLoading && loadingCount > 0) ||
-    (onFetching && fetchingCount > 0) ||
-    (onError && errorCount > 0);
-
-  const currentReason = resolveBlockingReason({
-    defaultReason: reason,
-    stateReasons: [
-      { condition: loadingCount > 0, reason: reasonOnLoading },
-      { condition: fetchingCount > 0, reason: reasonOnFetching },
-      { condition: errorCount > 0, reason: reasonOnError },
-    ],
-  });
+    resolvedConfig !== undefined &&
+    (onPaused || !isPaused) &&
+    ((onLoading && isLoading) || (onFetching && isFetching) || (onError && isError));
+
+  const currentReason = formatBlockingReason(
+    resolveBlockingReason({
+      defaultReason: reason,
+      stateReasons: [
+        { condition: isPaused, reason: reasonOnPaused },
+        { condition: isLoading, reason: reasonOnLoading },
+        { condition: isFetching, reason: reasonOnFetching },
+        { condition: isError, reason: errorState.reason },
+      ],
+    }),
+    { ...counts }
+  );
 
   useBlockingManager({
     blockerId,
@@ -214,7 +395,35 @@ export function useBlockingQueries<
     priority,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
+    actions,
   });
 
+  const entryBlockers: Array<UseBlockingManagerOptions> = [];
+
+  entries.forEach((entry, index) => {
+    const entryConfig = mergeBlockingConfig(queryDefaults, entry.blockingConfig);
+
+    if (!entry.blockingConfig || !entryConfig) {
+      return;
+    }
+
+    const entryBlocker = resolveEntryBlocker(
+      `queries-${String(index)}-${hashKey(entry.queryKey)}-${instanceId}`,
+      entryConfig,
+      queryResults[index],
+      isRestoring
+    );
+
+    entryBlockers.push({
+      ...entryBlocker,
+      shouldBlock: entryBlocker.shouldBlock && !cancelledHashes.has(queryHashes[index]),
+      actions: entryActions[index],
+    });
+  });
+
+  useBlockingManagers(entryBlockers);
+
   return results;
 }
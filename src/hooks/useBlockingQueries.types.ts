@@ -1,11 +1,46 @@
 import type { DefaultError, QueriesOptions, QueryKey, UseQueryOptions } from "@tanstack/react-query";
 import type { BaseBlockingConfig } from "../types";
+import type { QueryBlockingConfig, QueryErrorBlockingReason } from "./useBlockingQuery.types";
+
+/**
+ * How many queries must be in a state before the shared blocker blocks for it.
+ * - `'any'` - at least one query
+ * - `'all'` - every query
+ * - `{ atLeast: n }` - at least `n` queries
+ */
+export type QueriesAggregate = "any" | "all" | { atLeast: number };
+
+/**
+ * Query state counts available as placeholders in shared blocker reasons,
+ * e.g. `"Loaded {settled} of {total} sources"`.
+ */
+export interface QueriesCounts {
+  /** Number of pending queries */
+  loading: number;
+  /** Number of queries refetching in the background */
+  fetching: number;
+  /** Number of failed queries */
+  error: number;
+  /** Number of queries whose fetch is paused because the network is offline */
+  paused: number;
+  /** Number of queries that are no longer pending */
+  settled: number;
+  /** Total number of queries */
+  total: number;
+}
 
 /**
  * Configuration for queries blocking with dynamic reasons.
- * Supports different messages for pending, refetching, and error states.
+ * Supports different messages for pending, refetching, paused, and error states.
+ * Reasons may contain `{loading}`, `{fetching}`, `{error}`, `{paused}`, `{settled}` and `{total}`
+ * placeholders, which are replaced with the current counts.
  */
 export interface QueriesBlockingConfig extends BaseBlockingConfig {
+  /**
+   * How many queries must be pending, refetching, failed or paused before blocking (default: 'any').
+   * Applies to each of `onLoading`, `onFetching`, `onError` and `onPaused` separately.
+   */
+  aggregate?: QueriesAggregate;
   /**
    * Whether to block during the initial pending state (default: true).
    * Set to false to skip blocking during the first data fetch.
@@ -21,6 +56,16 @@ export interface QueriesBlockingConfig extends BaseBlockingConfig {
    * Set to true to keep UI blocked when any query fails.
    */
   onError?: boolean;
+  /**
+   * Decides per failed query whether it counts towards `onError`, e.g. to skip 404s or aborted
+   * requests (default: every error counts).
+   */
+  shouldBlockOnError?: (error: DefaultError) => boolean;
+  /**
+   * Whether to keep blocking while fetches are paused because the network is offline (default: true).
+   * Set to false to unblock entirely until the connection is back; uses `aggregate` like the other states.
+   */
+  onPaused?: boolean;
   /**
    * Message to show during the initial pending state.
    * Falls back to `reason` if not specified.
@@ -32,10 +77,16 @@ export interface QueriesBlockingConfig extends BaseBlockingConfig {
    */
   reasonOnFetching?: string;
   /**
-   * Message to show when any query fails.
+   * Message to show when any query fails, or a function of the first failed query that blocks
+   * (e.g. `(query) => query.error.message`).
    * Falls back to `reason` if not specified.
    */
-  reasonOnError?: string;
+  reasonOnError?: QueryErrorBlockingReason<unknown, DefaultError>;
+  /**
+   * Message to show while fetches are paused because the network is offline.
+   * Takes precedence over the other state reasons, which are used if not specified.
+   */
+  reasonOnPaused?: string;
 }
 
 /**
@@ -52,6 +103,53 @@ export type UseBlockingQueriesOptions<
   TError = DefaultError,
   TData = TQueryFnData,
   TQueryKey extends QueryKey = QueryKey,
-> = UseQueryOptions<TQueryFnData, TError, TData, TQueryKey>;
+> = UseQueryOptions<TQueryFnData, TError, TData, TQueryKey> & BlockingQueryEntryConfig;
+
+/**
+ * Blocking configuration of a single useBlockingQueries entry.
+ * Same as `QueryBlockingConfig`, except for the retrying state and `onTimeoutAction`,
+ * which need a dedicated hook instance per query.
+ */
+export type QueriesEntryBlockingConfig = Omit<
+  QueryBlockingConfig,
+  "onRetrying" | "reasonOnRetrying" | "onTimeoutAction"
+>;
+
+/**
+ * Per-entry blocking configuration for useBlockingQueries.
+ */
+export interface BlockingQueryEntryConfig {
+  /**
+   * Configuration for a separate blocker driven by this query only.
+   * Same defaults as `useBlockingQuery`; independent of the shared blocker.
+   */
+  blockingConfig?: QueriesEntryBlockingConfig;
+}
+
+type BlockingQueryEntryOptions<T> = QueriesOptions<[T]>[0] & BlockingQueryEntryConfig;
+
+/**
+ * Mirrors TanStack Query's `QueriesOptions` reducer, adding the per-entry `blockingConfig`
+ * to every tuple element while keeping per-query inference.
+ */
+type BlockingQueriesOptions<
+  T extends Array<unknown>,
+  TResults extends Array<unknown> = [],
+  TDepth extends ReadonlyArray<number> = [],
+> = TDepth["length"] extends 20
+  ? Array<UseBlockingQueriesOptions>
+  : T extends []
+    ? []
+    : T extends [infer Head]
+      ? [...TResults, BlockingQueryEntryOptions<Head>]
+      : T extends [infer Head, ...infer Tails]
+        ? BlockingQueriesOptions<
+            [...Tails],
+            [...TResults, BlockingQueryEntryOptions<Head>],
+            [...TDepth, 1]
+          >
+        : QueriesOptions<T>;
 
-export type BlockingQueriesInput<T extends Array<unknown>> = readonly [...QueriesOptions<T>];
+export type BlockingQueriesInput<T extends Array<unknown>> = readonly [
+  ...BlockingQueriesOptions<T>,
+];
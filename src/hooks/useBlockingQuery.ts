@@ -5,12 +5,23 @@ import {
   type QueryClient,
   type QueryKey,
   type UseQueryResult,
+  useIsRestoring,
   useQuery,
+  useQueryClient,
 } from "@tanstack/react-query";
-import { useBlockingManager, useQueryBlockerId } from "../internal";
-import { resolveBlockingReason } from "../utils";
+import {
+  useBlockingManager,
+  useQueryBlockerActions,
+  useQueryBlockerId,
+  useQueryBlockingRule,
+  useQueryTimeoutAction,
+  useResolvedBlockingConfig,
+  useRetryCountdown,
+} from "../internal";
+import { formatBlockingReason, isBlockingError, resolveBlockingReason } from "../utils";
 import type {
   DefinedInitialDataBlockingQueryOptions,
+  QueryBlockingConfig,
   UndefinedInitialDataBlockingQueryOptions,
   UseBlockingQueryOptions,
 } from "./useBlockingQuery.types";
@@ -26,7 +37,8 @@ import type {
  * @typeParam TData - The type of data returned by the hook (after select transformation)
  * @typeParam TQueryKey - The type of the query key
  *
- * @param options - Query options including blocking configuration
+ * @param options - Query options including blocking configuration.
+ *   `blockingConfig` may be omitted when a `BlockingRulesProvider` rule matches the query key.
  * @returns Query result object from TanStack Query
  *
  * @example
@@ -199,9 +211,17 @@ export function useBlockingQuery<
   queryClient?: QueryClient
 ): UseQueryResult<NoInfer<TData>, TError> {
   const { blockingConfig, ...queryOptions } = options;
+  const client = useQueryClient(queryClient);
   const query = useQuery(queryOptions, queryClient);
+  const isRestoring = useIsRestoring();
 
   const blockerId = useQueryBlockerId("query", options.queryKey);
+  const rule = useQueryBlockingRule([options.queryKey]);
+  const resolvedConfig = useResolvedBlockingConfig(
+    "query",
+    rule,
+    blockingConfig as QueryBlockingConfig | undefined
+  );
 
   const {
     scope,
@@ -209,26 +229,82 @@ export function useBlockingQuery<
     reasonOnLoading,
     reasonOnFetching,
     reasonOnError,
+    reasonOnRestoring,
+    reasonOnPaused,
+    reasonOnRetrying,
     priority = 10,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
     onLoading = true,
     onFetching = false,
     onError = false,
-  } = blockingConfig;
+    shouldBlockOnError,
+    onRestoring = false,
+    onPaused = true,
+    onRetrying = true,
+    onTimeoutAction = "unblock",
+  }: QueryBlockingConfig = resolvedConfig ?? {};
+
+  const { queryHash } = client.defaultQueryOptions(queryOptions);
+  const { actions, isCancelled } = useQueryBlockerActions(
+    queryHash,
+    query.fetchStatus,
+    query.refetch,
+    queryClient
+  );
+
+  const isBlockedByRestore = onRestoring && isRestoring;
+  const isPaused = query.fetchStatus === "paused";
+  const isRetrying = query.fetchStatus === "fetching" && query.failureCount > 0;
 
   const shouldBlock =
-    (onLoading && query.isPending) || (onFetching && query.isRefetching) || (onError && query.isError);
+    resolvedConfig !== undefined &&
+    !isCancelled &&
+    (isBlockedByRestore ||
+      ((onPaused || !isPaused) &&
+        (onRetrying || !isRetrying) &&
+        ((onLoading && query.isPending) ||
+          (onFetching && query.isRefetching) ||
+          (onError && isBlockingError(query.isError, query.error, shouldBlockOnError)))));
 
-  const currentReason = resolveBlockingReason({
-    defaultReason: reason,
-    stateReasons: [
-      { condition: query.isPending, reason: reasonOnLoading },
-      { condition: query.isRefetching, reason: reasonOnFetching },
-      { condition: query.isError, reason: reasonOnError },
-    ],
+  const retryCountdown = useRetryCountdown({
+    failureCount: query.failureCount,
+    failureReason: query.failureReason,
+    retryDelay: isRetrying ? client.defaultQueryOptions(queryOptions).retryDelay : undefined,
+    isRetrying,
+    isTicking: shouldBlock && isRetrying && reasonOnRetrying !== undefined,
   });
 
+  const currentReason = formatBlockingReason(
+    resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [
+          { condition: isBlockedByRestore, reason: reasonOnRestoring },
+          { condition: isPaused, reason: reasonOnPaused },
+          { condition: isRetrying, reason: reasonOnRetrying },
+          { condition: query.isPending, reason: reasonOnLoading },
+          { condition: query.isRefetching, reason: reasonOnFetching },
+          { condition: query.isError, reason: reasonOnError },
+        ],
+      },
+      query
+    ),
+    { ...retryCountdown }
+  );
+
+  const handleTimeout = useQueryTimeoutAction(
+    {
+      queryHash,
+      onTimeoutAction,
+      timeout,
+      onTimeout,
+    },
+    queryClient
+  );
+
   useBlockingManager({
     blockerId,
     shouldBlock,
@@ -236,7 +312,10 @@ export function useBlockingQuery<
     reason: currentReason,
     priority,
     timeout,
-    onTimeout,
+    onTimeout: handleTimeout,
+    delay,
+    minDuration,
+    actions,
   });
 
   return query;
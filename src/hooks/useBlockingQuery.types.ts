@@ -2,16 +2,54 @@ import type {
   DefaultError,
   DefinedInitialDataOptions,
   QueryKey,
+  QueryObserverResult,
   UndefinedInitialDataOptions,
   UseQueryOptions,
 } from "@tanstack/react-query";
-import type { BaseBlockingConfig } from "../types";
+import type { BaseBlockingConfig, BlockingReason } from "../types";
+
+/**
+ * Query state passed to function reasons.
+ * A subset of the query result that is also available outside of hooks
+ * (while suspended, in loaders and in `attachBlocking`).
+ *
+ * @typeParam TData - The type of data returned by the query
+ * @typeParam TError - The type of error that can be thrown
+ */
+export type QueryBlockingState<TData = unknown, TError = unknown> = Pick<
+  QueryObserverResult<TData, TError>,
+  "data" | "error" | "failureCount" | "failureReason" | "status" | "fetchStatus"
+>;
+
+/**
+ * Static reason or function of the current query state.
+ */
+export type QueryBlockingReason<TData = unknown, TError = unknown> = BlockingReason<
+  QueryBlockingState<TData, TError>
+>;
+
+/**
+ * Static reason or function of the state of a failed query, whose `error` is always set.
+ */
+export type QueryErrorBlockingReason<TData = unknown, TError = unknown> = BlockingReason<
+  QueryBlockingState<TData, TError> & { error: TError }
+>;
+
+/**
+ * What a query or infinite query does with its request when its blocker times out.
+ */
+export type QueryTimeoutAction = "unblock" | "cancel" | "error";
 
 /**
  * Configuration for query blocking with dynamic reasons.
- * Supports different messages for pending, refetching, and error states.
+ * Supports different messages for pending, refetching, paused, retrying, and error states.
+ * Every reason may be a function receiving the current query state.
+ *
+ * @typeParam TData - The type of data returned by the query (after select transformation)
+ * @typeParam TError - The type of error that can be thrown
  */
-export interface QueryBlockingConfig extends BaseBlockingConfig {
+export interface QueryBlockingConfig<TData = unknown, TError = unknown>
+  extends BaseBlockingConfig<QueryBlockingReason<TData, TError>> {
   /**
    * Whether to block during the initial pending state (default: true).
    * Set to false to skip blocking during the first data fetch.
@@ -27,21 +65,65 @@ export interface QueryBlockingConfig extends BaseBlockingConfig {
    * Set to true to keep UI blocked when query fails.
    */
   onError?: boolean;
+  /**
+   * Decides per error whether `onError` blocks, e.g. to skip 404s or aborted requests
+   * and only keep the UI locked for server or validation failures (default: every error blocks).
+   */
+  shouldBlockOnError?: (error: TError) => boolean;
+  /**
+   * Whether to block while a persisted QueryClient is restoring (default: false).
+   * Set to true inside `PersistQueryClientProvider` to block until the cache is restored.
+   */
+  onRestoring?: boolean;
+  /**
+   * Whether to keep blocking while the fetch is paused because the network is offline (default: true).
+   * Set to false to unblock entirely until the connection is back.
+   */
+  onPaused?: boolean;
+  /**
+   * Whether to keep blocking while a failed fetch is retried (default: true).
+   * Set to false to unblock between retry attempts.
+   */
+  onRetrying?: boolean;
+  /**
+   * What happens to the request when the blocker times out (default: `'unblock'`).
+   * - `'unblock'`: only remove the blocker and call `onTimeout`; the fetch keeps running
+   * - `'cancel'`: also cancel the fetch, reverting the query to its previous state
+   * - `'error'`: cancel the fetch and fail the query with a `BlockingTimeoutError`
+   */
+  onTimeoutAction?: QueryTimeoutAction;
   /**
    * Message to show during the initial pending state.
    * Falls back to `reason` if not specified.
    */
-  reasonOnLoading?: string;
+  reasonOnLoading?: QueryBlockingReason<TData, TError>;
   /**
    * Message to show during background refetching.
    * Falls back to `reason` if not specified.
    */
-  reasonOnFetching?: string;
+  reasonOnFetching?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show when query fails, e.g. `(query) => query.error.message`.
+   * Falls back to `reason` if not specified.
+   */
+  reasonOnError?: QueryErrorBlockingReason<TData, TError>;
   /**
-   * Message to show when query fails.
+   * Message to show while the persisted cache is being restored.
    * Falls back to `reason` if not specified.
    */
-  reasonOnError?: string;
+  reasonOnRestoring?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show while the fetch is paused because the network is offline.
+   * Takes precedence over the other state reasons, which are used if not specified.
+   */
+  reasonOnPaused?: QueryBlockingReason<TData, TError>;
+  /**
+   * Message to show while a failed fetch is retried.
+   * May contain `{attempt}` (upcoming attempt number) and `{retryIn}` (seconds until it starts,
+   * computed from `retryDelay`) placeholders, which count down in the blocker reason.
+   * Falls back to the other state reasons if not specified.
+   */
+  reasonOnRetrying?: QueryBlockingReason<TData, TError>;
 }
 
 /**
@@ -61,12 +143,13 @@ export interface UseBlockingQueryOptions<
 > extends UseQueryOptions<TQueryFnData, TError, TData, TQueryKey> {
   /**
    * Configuration for UI blocking behavior during query execution.
+   * Merged over the matching `BlockingRulesProvider` rule; optional when a rule covers the key.
    */
-  blockingConfig: QueryBlockingConfig;
+  blockingConfig?: QueryBlockingConfig<TData, TError>;
 }
 
-interface BlockingQueryConfig {
-  blockingConfig: QueryBlockingConfig;
+interface BlockingQueryConfig<TData, TError> {
+  blockingConfig?: QueryBlockingConfig<TData, TError>;
 }
 
 export type UndefinedInitialDataBlockingQueryOptions<
@@ -74,11 +157,13 @@ export type UndefinedInitialDataBlockingQueryOptions<
   TError = DefaultError,
   TData = TQueryFnData,
   TQueryKey extends QueryKey = QueryKey,
-> = UndefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> & BlockingQueryConfig;
+> = UndefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> &
+  BlockingQueryConfig<TData, TError>;
 
 export type DefinedInitialDataBlockingQueryOptions<
   TQueryFnData = unknown,
   TError = DefaultError,
   TData = TQueryFnData,
   TQueryKey extends QueryKey = QueryKey,
-> = DefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> & BlockingQueryConfig;
+> = DefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> &
+  BlockingQueryConfig<TData, TError>;
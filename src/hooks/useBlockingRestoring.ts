@@ -0,0 +1,67 @@
+import { useIsRestoring } from "@tanstack/react-query";
+import { useBlockingManager, useRandomBlockerId, useResolvedBlockingConfig } from "../internal";
+import type { RestoringBlockingConfig } from "./useBlockingRestoring.types";
+
+/**
+ * Blocks a scope while a persisted QueryClient is restoring its cache.
+ *
+ * Built on TanStack Query's `useIsRestoring`, which is true inside `PersistQueryClientProvider`
+ * until the persisted cache has been restored. Use it to keep forms and actions blocked until
+ * the restored data is available. Outside a persister it never blocks.
+ *
+ * Uses the `restoring` entry of `BlockingDefaultsProvider`.
+ *
+ * @param blockingConfig - Configuration for UI blocking behavior
+ * @param blockingConfig.scope - Scope(s) to block (default: 'global')
+ * @param blockingConfig.reason - Blocking reason (default: 'Restoring data...')
+ * @param blockingConfig.priority - Priority level 0-100 (default: 10)
+ * @param blockingConfig.timeout - Auto-remove blocker after N milliseconds
+ * @param blockingConfig.onTimeout - Callback when timeout occurs
+ * @param blockingConfig.delay - Only block once the state has lasted N milliseconds
+ * @param blockingConfig.minDuration - Keep the blocker for at least N milliseconds
+ * @returns Whether the cache is currently restoring
+ *
+ * @example
+ * ```tsx
+ * function ProfileForm() {
+ *   useBlockingRestoring({ scope: 'profile-form', reason: 'Restoring your draft...' });
+ *   const isBlocked = useIsBlocked('profile-form');
+ *   return <fieldset disabled={isBlocked}>...</fieldset>;
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/plugins/persistQueryClient | TanStack Query persistQueryClient docs}
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingRestoring(blockingConfig: RestoringBlockingConfig): boolean {
+  const isRestoring = useIsRestoring();
+
+  const blockerId = useRandomBlockerId();
+  const resolvedConfig = useResolvedBlockingConfig("restoring", undefined, blockingConfig);
+
+  const {
+    scope,
+    reason = "Restoring data...",
+    priority = 10,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  }: RestoringBlockingConfig = resolvedConfig ?? {};
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock: isRestoring,
+    scope,
+    reason,
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+  });
+
+  return isRestoring;
+}
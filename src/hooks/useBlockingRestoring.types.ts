@@ -0,0 +1,12 @@
+import type { BaseBlockingConfig } from "../types";
+
+/**
+ * Configuration for blocking while a persisted QueryClient is restoring.
+ */
+export interface RestoringBlockingConfig extends BaseBlockingConfig {
+  /**
+   * Message to show while the cache is being restored.
+   * Falls back to "Restoring data..." if not specified.
+   */
+  reason?: string;
+}
@@ -0,0 +1,183 @@
+import {
+  type DefaultError,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+  type UseSuspenseInfiniteQueryResult,
+  hashKey,
+  useQueryClient,
+  useSuspenseInfiniteQuery,
+} from "@tanstack/react-query";
+import {
+  useBlockingManager,
+  useQueryBlockerActions,
+  useQueryBlockerId,
+  useQueryBlockingRule,
+  useResolvedBlockingConfig,
+  useSuspenseBlocker,
+} from "../internal";
+import {
+  getInfiniteFetchingState,
+  getQueryBlockingState,
+  isBlockingError,
+  resolveBlockingReason,
+} from "../utils";
+import type { InfiniteQueryBlockingConfig } from "./useBlockingInfiniteQuery.types";
+import type { UseBlockingSuspenseInfiniteQueryOptions } from "./useBlockingSuspenseInfiniteQuery.types";
+
+/**
+ * A wrapper around TanStack Query's `useSuspenseInfiniteQuery` that integrates with the UI blocking system.
+ *
+ * While the first page is suspended, the blocker is registered as soon as the hook suspends and
+ * removed when the promise settles. Once data is available, refetches and next/previous page
+ * loads are handled like `useBlockingInfiniteQuery`.
+ *
+ * Uses the `infiniteQuery` entry of `BlockingDefaultsProvider` and query rules from `BlockingRulesProvider`.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (default: InfiniteData<TQueryFnData>)
+ * @typeParam TQueryKey - The type of the query key
+ * @typeParam TPageParam - The type of the page parameter
+ *
+ * @param options - Suspense infinite query options including blocking configuration
+ * @param options.blockingConfig.onLoading - Block while the first page is suspended (default: true)
+ * @param options.blockingConfig.onFetching - Block during refetch and next/previous page loads (default: false)
+ * @param options.blockingConfig.onRefetching - Block during refetch (default: `onFetching`)
+ * @param options.blockingConfig.onFetchingNextPage - Block while the next page loads (default: `onFetching`)
+ * @param options.blockingConfig.onFetchingPreviousPage - Block while the previous page loads (default: `onFetching`)
+ * @param options.blockingConfig.onError - Block when a page fetch fails (default: false)
+ * @param queryClient - Optional QueryClient instance
+ * @returns Suspense infinite query result object from TanStack Query
+ *
+ * @example
+ * ```tsx
+ * function AuditLog() {
+ *   const { data, fetchNextPage } = useBlockingSuspenseInfiniteQuery({
+ *     queryKey: ['audit-logs'],
+ *     queryFn: ({ pageParam }) => fetchAuditLogs(pageParam),
+ *     getNextPageParam: (lastPage) => lastPage.nextPage,
+ *     initialPageParam: 1,
+ *     blockingConfig: {
+ *       scope: 'audit-logs',
+ *       reasonOnLoading: 'Loading audit logs...',
+ *       reasonOnFetching: 'Loading more entries...',
+ *       onFetching: true, // Also block every "load more" ✅
+ *     },
+ *   });
+ *   return null; // data.pages is always defined here
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/useSuspenseInfiniteQuery | TanStack Query useSuspenseInfiniteQuery docs}
+ * @see {@link useBlockingInfiniteQuery} for non-suspense infinite queries
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingSuspenseInfiniteQuery<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = InfiniteData<TQueryFnData>,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  options: UseBlockingSuspenseInfiniteQueryOptions<
+    TQueryFnData,
+    TError,
+    TData,
+    TQueryKey,
+    TPageParam
+  >,
+  queryClient?: QueryClient
+): UseSuspenseInfiniteQueryResult<TData, TError> {
+  const { blockingConfig, ...queryOptions } = options;
+  const client = useQueryClient(queryClient);
+
+  const blockerId = useQueryBlockerId("suspense-infinite-query", options.queryKey);
+  const rule = useQueryBlockingRule([options.queryKey]);
+  const resolvedConfig = useResolvedBlockingConfig(
+    "infiniteQuery",
+    rule,
+    blockingConfig as InfiniteQueryBlockingConfig | undefined
+  );
+
+  const config: InfiniteQueryBlockingConfig = resolvedConfig ?? {};
+  const {
+    scope,
+    reason = "Loading more data...",
+    reasonOnLoading,
+    reasonOnError,
+    priority = 10,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    onLoading = true,
+    onError = false,
+    shouldBlockOnError,
+  } = config;
+
+  const trackSuspense = useSuspenseBlocker({
+    blockerId: `suspense-infinite-query-${hashKey(options.queryKey)}`,
+    shouldBlock: resolvedConfig !== undefined && onLoading,
+    scope,
+    reason: resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [{ condition: true, reason: reasonOnLoading }],
+      },
+      getQueryBlockingState(client.getQueryState(options.queryKey))
+    ),
+    priority,
+    timeout,
+    onTimeout,
+  });
+
+  let query: UseSuspenseInfiniteQueryResult<TData, TError>;
+
+  try {
+    query = useSuspenseInfiniteQuery(queryOptions, queryClient);
+  } catch (thrown) {
+    trackSuspense(thrown);
+    throw thrown;
+  }
+
+  const { actions, isCancelled } = useQueryBlockerActions(
+    client.defaultQueryOptions(queryOptions).queryHash,
+    query.fetchStatus,
+    query.refetch,
+    queryClient
+  );
+
+  const fetching = getInfiniteFetchingState(query, config);
+
+  const shouldBlock =
+    resolvedConfig !== undefined &&
+    !isCancelled &&
+    (fetching.shouldBlock ||
+      (onError && isBlockingError(query.isError, query.error, shouldBlockOnError)));
+
+  const currentReason = resolveBlockingReason(
+    {
+      defaultReason: reason,
+      stateReasons: [...fetching.stateReasons, { condition: query.isError, reason: reasonOnError }],
+    },
+    query
+  );
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock,
+    scope: fetching.scope,
+    reason: currentReason,
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    actions,
+  });
+
+  return query;
+}
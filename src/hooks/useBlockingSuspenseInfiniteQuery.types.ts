@@ -0,0 +1,47 @@
+import type {
+  DefaultError,
+  InfiniteData,
+  QueryKey,
+  UseSuspenseInfiniteQueryOptions,
+} from "@tanstack/react-query";
+import type { InfiniteQueryBlockingConfig } from "./useBlockingInfiniteQuery.types";
+
+/**
+ * Blocking configuration for useBlockingSuspenseInfiniteQuery.
+ * The suspended phase follows the query promise, so the paused and retrying states
+ * and `onTimeoutAction` of `InfiniteQueryBlockingConfig` are not supported.
+ *
+ * @typeParam TData - The type of data returned by the query (usually `InfiniteData`)
+ * @typeParam TError - The type of error that can be thrown
+ */
+export type SuspenseInfiniteQueryBlockingConfig<TData = unknown, TError = unknown> = Omit<
+  InfiniteQueryBlockingConfig<TData, TError>,
+  "onPaused" | "reasonOnPaused" | "onRetrying" | "reasonOnRetrying" | "onTimeoutAction"
+>;
+
+/**
+ * Options for useBlockingSuspenseInfiniteQuery hook.
+ * Extends TanStack Query's UseSuspenseInfiniteQueryOptions with blocking configuration.
+ *
+ * `onLoading` applies while the first page is suspended; `onFetching` and `onError`
+ * apply to refetches and next/previous page loads once data is available.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (after select transformation)
+ * @typeParam TQueryKey - The type of the query key
+ * @typeParam TPageParam - The type of the page parameter
+ */
+export interface UseBlockingSuspenseInfiniteQueryOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = InfiniteData<TQueryFnData>,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+> extends UseSuspenseInfiniteQueryOptions<TQueryFnData, TError, TData, TQueryKey, TPageParam> {
+  /**
+   * Configuration for UI blocking behavior.
+   * Merged over the matching `BlockingRulesProvider` rule; optional when a rule covers the key.
+   */
+  blockingConfig?: SuspenseInfiniteQueryBlockingConfig<TData, TError>;
+}
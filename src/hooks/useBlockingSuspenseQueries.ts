@@ -0,0 +1,175 @@
+import {
+  type QueryClient,
+  type QueryObserverResult,
+  type SuspenseQueriesResults,
+  hashKey,
+  useQueryClient,
+  useSuspenseQueries,
+} from "@tanstack/react-query";
+import {
+  useBlockingManager,
+  useQueriesBlockerActions,
+  useQueryBlockingRule,
+  useRandomBlockerId,
+  useResolvedBlockingConfig,
+  useSuspenseBlocker,
+} from "../internal";
+import {
+  countQueryStates,
+  formatBlockingReason,
+  getQueriesErrorState,
+  isAggregateMet,
+  resolveBlockingReason,
+} from "../utils";
+import type { QueriesBlockingConfig } from "./useBlockingQueries.types";
+import type {
+  BlockingSuspenseQueriesInput,
+  SuspenseQueriesBlockingConfig,
+  UseBlockingSuspenseQueriesOptions,
+} from "./useBlockingSuspenseQueries.types";
+
+/**
+ * A wrapper around TanStack Query's `useSuspenseQueries` for parallel suspense queries with UI blocking.
+ *
+ * While any query is suspended, a single blocker is registered for the whole set and removed once
+ * all pending promises settle. Once data is available, background refetches and errors are
+ * aggregated like `useBlockingQueries`. Result tuple types are preserved the same way as
+ * `useSuspenseQueries`.
+ *
+ * Uses the `queries` entry of `BlockingDefaultsProvider` and the first query rule from
+ * `BlockingRulesProvider` that matches any of the query keys.
+ *
+ * @typeParam T - Tuple of query option types used to infer the result tuple
+ *
+ * @param queries - Array of suspense query options (same as `useSuspenseQueries`)
+ * @param blockingConfig - Unified blocking configuration for all queries
+ * @param blockingConfig.onLoading - Block while any query is suspended (default: true)
+ * @param blockingConfig.onFetching - Block when any query is refetching (default: false)
+ * @param blockingConfig.onError - Block when any background refetch fails (default: false)
+ * @param blockingConfig.aggregate - How many queries must be refetching or failed to block
+ *   (default: 'any'). The suspended blocker always covers the whole set.
+ * @param queryClient - Optional QueryClient instance
+ * @returns Array of suspense query results with preserved tuple types
+ *
+ * @example
+ * ```tsx
+ * function Dashboard() {
+ *   const [userQuery, statsQuery] = useBlockingSuspenseQueries(
+ *     [
+ *       { queryKey: ['user'], queryFn: fetchUser },
+ *       { queryKey: ['stats'], queryFn: fetchStats },
+ *     ],
+ *     {
+ *       scope: 'dashboard',
+ *       reasonOnLoading: 'Loading dashboard...',
+ *     }
+ *   );
+ *   return null; // userQuery.data and statsQuery.data are always defined here
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/useSuspenseQueries | TanStack Query useSuspenseQueries docs}
+ * @see {@link useBlockingQueries} for non-suspense parallel queries
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingSuspenseQueries<T extends Array<unknown>>(
+  queries: BlockingSuspenseQueriesInput<T>,
+  blockingConfig?: SuspenseQueriesBlockingConfig,
+  queryClient?: QueryClient
+): SuspenseQueriesResults<T> {
+  const queryOptions = queries as ReadonlyArray<UseBlockingSuspenseQueriesOptions>;
+  const queryKeys = queryOptions.map((query) => query.queryKey);
+  const client = useQueryClient(queryClient);
+
+  const blockerId = useRandomBlockerId();
+  const rule = useQueryBlockingRule(queryKeys);
+  const resolvedConfig = useResolvedBlockingConfig("queries", rule, blockingConfig);
+
+  const {
+    scope,
+    reason = "Loading queries...",
+    reasonOnLoading,
+    reasonOnFetching,
+    reasonOnError,
+    priority = 10,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    onLoading = true,
+    onFetching = false,
+    onError = false,
+    shouldBlockOnError,
+    aggregate,
+  }: QueriesBlockingConfig = resolvedConfig ?? {};
+
+  const trackSuspense = useSuspenseBlocker({
+    blockerId: `suspense-queries-${hashKey(queryKeys)}`,
+    shouldBlock: resolvedConfig !== undefined && onLoading,
+    scope,
+    reason: reasonOnLoading ?? reason,
+    priority,
+    timeout,
+    onTimeout,
+  });
+
+  let results: SuspenseQueriesResults<T>;
+
+  try {
+    results = useSuspenseQueries({ queries }, queryClient);
+  } catch (thrown) {
+    trackSuspense(thrown);
+    throw thrown;
+  }
+
+  const queryResults = results as ReadonlyArray<QueryObserverResult>;
+  const queryHashes = queryOptions.map((query) => client.defaultQueryOptions(query).queryHash);
+  const { actions, cancelledHashes } = useQueriesBlockerActions(
+    queryResults.map(({ fetchStatus, refetch }, index) => ({
+      queryHash: queryHashes[index],
+      fetchStatus,
+      refetch,
+    })),
+    queryClient
+  );
+  // Cancelled queries stop counting towards the blocker until they fetch again.
+  const activeResults = queryResults.filter(
+    (_result, index) => !cancelledHashes.has(queryHashes[index])
+  );
+
+  const counts = countQueryStates(activeResults);
+  const isFetching = isAggregateMet(counts.fetching, counts.total, aggregate);
+  const errorState = getQueriesErrorState(activeResults, shouldBlockOnError, reasonOnError);
+  const isError = isAggregateMet(errorState.count, counts.total, aggregate);
+
+  const shouldBlock =
+    resolvedConfig !== undefined && ((onFetching && isFetching) || (onError && isError));
+
+  const currentReason = formatBlockingReason(
+    resolveBlockingReason({
+      defaultReason: reason,
+      stateReasons: [
+        { condition: isFetching, reason: reasonOnFetching },
+        { condition: isError, reason: errorState.reason },
+      ],
+    }),
+    { ...counts }
+  );
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock,
+    scope,
+    reason: currentReason,
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    actions,
+  });
+
+  return results;
+}
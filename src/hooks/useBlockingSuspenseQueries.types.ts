@@ -0,0 +1,37 @@
+import type {
+  DefaultError,
+  QueryKey,
+  SuspenseQueriesOptions,
+  UseSuspenseQueryOptions,
+} from "@tanstack/react-query";
+import type { QueriesBlockingConfig } from "./useBlockingQueries.types";
+
+/**
+ * Blocking configuration for useBlockingSuspenseQueries.
+ * Suspended queries are tracked through their promises, so `onPaused` / `reasonOnPaused`
+ * of `QueriesBlockingConfig` are not supported.
+ */
+export type SuspenseQueriesBlockingConfig = Omit<
+  QueriesBlockingConfig,
+  "onPaused" | "reasonOnPaused"
+>;
+
+/**
+ * Options for a single query within useBlockingSuspenseQueries.
+ * Extends TanStack Query's UseSuspenseQueryOptions.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (after select transformation)
+ * @typeParam TQueryKey - The type of the query key
+ */
+export type UseBlockingSuspenseQueriesOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = UseSuspenseQueryOptions<TQueryFnData, TError, TData, TQueryKey>;
+
+export type BlockingSuspenseQueriesInput<T extends Array<unknown>> = readonly [
+  ...SuspenseQueriesOptions<T>,
+];
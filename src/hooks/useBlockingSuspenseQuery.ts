@@ -0,0 +1,184 @@
+import {
+  type DefaultError,
+  type QueryClient,
+  type QueryKey,
+  type UseSuspenseQueryResult,
+  hashKey,
+  useIsRestoring,
+  useQueryClient,
+  useSuspenseQuery,
+} from "@tanstack/react-query";
+import {
+  useBlockingManager,
+  useQueryBlockerActions,
+  useQueryBlockerId,
+  useQueryBlockingRule,
+  useResolvedBlockingConfig,
+  useSuspenseBlocker,
+} from "../internal";
+import { getQueryBlockingState, isBlockingError, resolveBlockingReason } from "../utils";
+import type { QueryBlockingConfig } from "./useBlockingQuery.types";
+import type { UseBlockingSuspenseQueryOptions } from "./useBlockingSuspenseQuery.types";
+
+/**
+ * A wrapper around TanStack Query's `useSuspenseQuery` that integrates with the UI blocking system.
+ *
+ * While the query promise is suspended, the component never commits, so the blocker is registered
+ * as soon as the hook suspends and removed when the promise settles. This lets components outside
+ * the Suspense boundary (sibling scopes, navigation, global overlays) know that the section is loading.
+ * Once data is available, background refetches and errors are handled like `useBlockingQuery`.
+ *
+ * Uses the `query` entry of `BlockingDefaultsProvider` and query rules from `BlockingRulesProvider`.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (after select transformation)
+ * @typeParam TQueryKey - The type of the query key
+ *
+ * @param options - Suspense query options including blocking configuration
+ * @param options.blockingConfig.onLoading - Block while suspended (default: true)
+ * @param options.blockingConfig.onFetching - Block during background refetch (default: false)
+ * @param options.blockingConfig.onError - Block when a background refetch fails (default: false)
+ * @param options.blockingConfig.onRestoring - Block while a persisted cache is restoring (default: false)
+ * @param queryClient - Optional QueryClient instance
+ * @returns Suspense query result object from TanStack Query
+ *
+ * @example
+ * Block navigation while a suspended section loads
+ * ```tsx
+ * import { useIsBlocked } from '@okyrychenko-dev/react-action-guard';
+ *
+ * function ReportDetails({ id }: { id: string }) {
+ *   const { data } = useBlockingSuspenseQuery({
+ *     queryKey: ['report', id],
+ *     queryFn: () => fetchReport(id),
+ *     blockingConfig: {
+ *       scope: ['report', 'navigation'],
+ *       reasonOnLoading: 'Loading report...',
+ *     },
+ *   });
+ *   return null; // data is always defined here
+ * }
+ *
+ * function Toolbar() {
+ *   // Rendered outside the Suspense boundary
+ *   const isBlocked = useIsBlocked('navigation');
+ *   // isBlocked === true while ReportDetails is suspended ✅
+ *   return null;
+ * }
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/useSuspenseQuery | TanStack Query useSuspenseQuery docs}
+ * @see {@link useBlockingQuery} for non-suspense queries
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function useBlockingSuspenseQuery<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  options: UseBlockingSuspenseQueryOptions<TQueryFnData, TError, TData, TQueryKey>,
+  queryClient?: QueryClient
+): UseSuspenseQueryResult<TData, TError> {
+  const { blockingConfig, ...queryOptions } = options;
+  const client = useQueryClient(queryClient);
+
+  const blockerId = useQueryBlockerId("suspense-query", options.queryKey);
+  const rule = useQueryBlockingRule([options.queryKey]);
+  const resolvedConfig = useResolvedBlockingConfig(
+    "query",
+    rule,
+    blockingConfig as QueryBlockingConfig | undefined
+  );
+
+  const {
+    scope,
+    reason = "Loading data...",
+    reasonOnLoading,
+    reasonOnFetching,
+    reasonOnError,
+    reasonOnRestoring,
+    priority = 10,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    onLoading = true,
+    onFetching = false,
+    onError = false,
+    shouldBlockOnError,
+    onRestoring = false,
+  }: QueryBlockingConfig = resolvedConfig ?? {};
+
+  const trackSuspense = useSuspenseBlocker({
+    blockerId: `suspense-query-${hashKey(options.queryKey)}`,
+    shouldBlock: resolvedConfig !== undefined && onLoading,
+    scope,
+    reason: resolveBlockingReason(
+      {
+        defaultReason: reason,
+        stateReasons: [{ condition: true, reason: reasonOnLoading }],
+      },
+      getQueryBlockingState(client.getQueryState(options.queryKey))
+    ),
+    priority,
+    timeout,
+    onTimeout,
+  });
+
+  const isRestoring = useIsRestoring();
+  let query: UseSuspenseQueryResult<TData, TError>;
+
+  try {
+    query = useSuspenseQuery(queryOptions, queryClient);
+  } catch (thrown) {
+    trackSuspense(thrown);
+    throw thrown;
+  }
+
+  const { actions, isCancelled } = useQueryBlockerActions(
+    client.defaultQueryOptions(queryOptions).queryHash,
+    query.fetchStatus,
+    query.refetch,
+    queryClient
+  );
+
+  const isBlockedByRestore = onRestoring && isRestoring;
+
+  const shouldBlock =
+    resolvedConfig !== undefined &&
+    !isCancelled &&
+    (isBlockedByRestore ||
+      (onFetching && query.isRefetching) ||
+      (onError && isBlockingError(query.isError, query.error, shouldBlockOnError)));
+
+  const currentReason = resolveBlockingReason(
+    {
+      defaultReason: reason,
+      stateReasons: [
+        { condition: isBlockedByRestore, reason: reasonOnRestoring },
+        { condition: query.isRefetching, reason: reasonOnFetching },
+        { condition: query.isError, reason: reasonOnError },
+      ],
+    },
+    query
+  );
+
+  useBlockingManager({
+    blockerId,
+    shouldBlock,
+    scope,
+    reason: currentReason,
+    priority,
+    timeout,
+    onTimeout,
+    delay,
+    minDuration,
+    actions,
+  });
+
+  return query;
+}
@@ -0,0 +1,40 @@
+import type { DefaultError, QueryKey, UseSuspenseQueryOptions } from "@tanstack/react-query";
+import type { QueryBlockingConfig } from "./useBlockingQuery.types";
+
+/**
+ * Blocking configuration for useBlockingSuspenseQuery.
+ * The suspended phase follows the query promise, so the paused and retrying states
+ * and `onTimeoutAction` of `QueryBlockingConfig` are not supported.
+ *
+ * @typeParam TData - The type of data returned by the query (after select transformation)
+ * @typeParam TError - The type of error that can be thrown
+ */
+export type SuspenseQueryBlockingConfig<TData = unknown, TError = unknown> = Omit<
+  QueryBlockingConfig<TData, TError>,
+  "onPaused" | "reasonOnPaused" | "onRetrying" | "reasonOnRetrying" | "onTimeoutAction"
+>;
+
+/**
+ * Options for useBlockingSuspenseQuery hook.
+ * Extends TanStack Query's UseSuspenseQueryOptions with blocking configuration.
+ *
+ * `onLoading` applies while the query promise is suspended; `onFetching` and `onError`
+ * apply to background refetches once data is available.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (after select transformation)
+ * @typeParam TQueryKey - The type of the query key
+ */
+export interface UseBlockingSuspenseQueryOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> extends UseSuspenseQueryOptions<TQueryFnData, TError, TData, TQueryKey> {
+  /**
+   * Configuration for UI blocking behavior during query execution.
+   * Merged over the matching `BlockingRulesProvider` rule; optional when a rule covers the key.
+   */
+  blockingConfig?: SuspenseQueryBlockingConfig<TData, TError>;
+}
@@ -3,15 +3,88 @@ export {
   useBlockingMutation,
   useBlockingInfiniteQuery,
   useBlockingQueries,
+  useBlockingSuspenseQuery,
+  useBlockingSuspenseInfiniteQuery,
+  useBlockingSuspenseQueries,
+  useBlockingIsFetching,
+  useBlockingIsMutating,
+  useBlockingMutationState,
+  useBlockingRestoring,
+  useBlockerActions,
 } from "./hooks";
 export type {
   UseBlockingQueryOptions,
   UseBlockingMutationOptions,
   UseBlockingInfiniteQueryOptions,
   UseBlockingQueriesOptions,
+  UseBlockingSuspenseQueryOptions,
+  UseBlockingSuspenseInfiniteQueryOptions,
+  UseBlockingSuspenseQueriesOptions,
   QueryBlockingConfig,
+  QueryBlockingReason,
+  QueryErrorBlockingReason,
+  QueryBlockingState,
+  QueryTimeoutAction,
   MutationBlockingConfig,
+  MutationBlockingReason,
+  MutationErrorBlockingReason,
+  MutationBlockingState,
+  MutationWaitFor,
+  MutationVariablesValue,
+  UseBlockingMutationResult,
+  BlockingMutateOptions,
   InfiniteQueryBlockingConfig,
   QueriesBlockingConfig,
+  QueriesEntryBlockingConfig,
+  QueriesAggregate,
+  QueriesCounts,
+  IsFetchingBlockingConfig,
+  IsMutatingBlockingConfig,
+  MutationStateBlockingConfig,
+  MutationStateReason,
+  RestoringBlockingConfig,
+  SuspenseQueryBlockingConfig,
+  SuspenseInfiniteQueryBlockingConfig,
+  SuspenseQueriesBlockingConfig,
+  UseBlockerActionsResult,
 } from "./hooks";
-export type { BaseBlockingConfig } from "./types";
+export { blockingMutationOptions, blockingQueryOptions } from "./options";
+export type {
+  DefinedInitialDataBlockingOptions,
+  UndefinedInitialDataBlockingOptions,
+  UnusedSkipTokenBlockingOptions,
+} from "./options";
+export {
+  attachBlocking,
+  ensureQueryDataWithBlocking,
+  fetchQueryWithBlocking,
+  invalidateQueriesWithBlocking,
+  prefetchInfiniteQueryWithBlocking,
+  refetchQueriesWithBlocking,
+} from "./client";
+export type {
+  AttachBlockingOptions,
+  DetachBlocking,
+  EnsureQueryDataWithBlockingOptions,
+  FetchQueryWithBlockingOptions,
+  ImperativeBlockingOptions,
+  InvalidateQueriesWithBlockingOptions,
+  MutationBlockingMeta,
+  MutationBlockingMetaConfig,
+  PrefetchInfiniteQueryWithBlockingOptions,
+  QueryBlockingMeta,
+  QueryBlockingMetaConfig,
+  RefetchBlockingConfig,
+  RefetchQueriesWithBlockingOptions,
+} from "./client";
+export { BlockingDefaultsProvider, BlockingRulesProvider } from "./providers";
+export type {
+  BlockingDefaults,
+  BlockingDefaultsProviderProps,
+  BlockingRule,
+  BlockingRulesProviderProps,
+  MutationBlockingRule,
+  QueryBlockingRule,
+} from "./providers";
+export type { BaseBlockingConfig, BlockerActions, BlockingReason, BlockingStoreApi } from "./types";
+export { BlockingTimeoutError } from "./utils";
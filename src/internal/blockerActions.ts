@@ -0,0 +1,51 @@
+import type { BlockerActions, BlockingStoreApi } from "../types";
+
+/**
+ * Actions per blocker ID, kept per store so isolated `UIBlockingProvider` stores never
+ * see each other's actions. The store itself only keeps serializable blocker fields.
+ */
+const registries = new WeakMap<BlockingStoreApi, Map<string, BlockerActions>>();
+
+/**
+ * Attaches actions to a blocker ID of a store.
+ *
+ * @param store - Store the blocker is registered in
+ * @param blockerId - ID of the blocker
+ * @param actions - Actions of the operation behind the blocker
+ * @returns Function that detaches the actions (no-op once they were replaced)
+ */
+export function registerBlockerActions(
+  store: BlockingStoreApi,
+  blockerId: string,
+  actions: BlockerActions
+): () => void {
+  let registry = registries.get(store);
+
+  if (!registry) {
+    registry = new Map();
+    registries.set(store, registry);
+  }
+
+  const actionsById = registry;
+  actionsById.set(blockerId, actions);
+
+  return () => {
+    if (actionsById.get(blockerId) === actions) {
+      actionsById.delete(blockerId);
+    }
+  };
+}
+
+/**
+ * Reads the actions attached to a blocker ID of a store.
+ *
+ * @param store - Store the blocker is registered in
+ * @param blockerId - ID of the blocker
+ * @returns The attached actions, if any
+ */
+export function getBlockerActions(
+  store: BlockingStoreApi,
+  blockerId: string
+): BlockerActions | undefined {
+  return registries.get(store)?.get(blockerId);
+}
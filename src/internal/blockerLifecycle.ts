@@ -0,0 +1,132 @@
+import type { BlockerConfig } from "@okyrychenko-dev/react-action-guard";
+import type { BlockingStoreApi } from "../types";
+
+/**
+ * Anti-flicker timing applied by a blocker lifecycle.
+ */
+export interface BlockerTiming {
+  /** Only add the blocker once blocking has lasted N milliseconds */
+  delay?: number;
+  /** Keep an added blocker for at least N milliseconds */
+  minDuration?: number;
+}
+
+/**
+ * Owns a single blocker in a store and tracks whether it is registered.
+ */
+export interface BlockerLifecycle {
+  /**
+   * Adds, updates or removes the blocker so that it matches `shouldBlock`,
+   * honoring `delay` before adding and `minDuration` before removing.
+   */
+  sync: (shouldBlock: boolean, config: BlockerConfig, timing?: BlockerTiming) => void;
+  /**
+   * Cancels pending timers and removes the blocker immediately if this lifecycle registered it.
+   */
+  release: () => void;
+  /**
+   * Whether no blocker is registered and no delayed add is pending.
+   */
+  isIdle: () => boolean;
+}
+
+/**
+ * Creates the add/update/remove lifecycle for one blocker.
+ * Shared by `useBlockingManager` and the imperative client functions, so both register,
+ * update and clean up blockers the same way (including `timeout`/`onTimeout` handling by the store).
+ *
+ * @param store - Store that receives the blocker
+ * @param blockerId - Unique identifier of the blocker
+ * @returns Lifecycle controlling the blocker
+ */
+export function createBlockerLifecycle(
+  store: BlockingStoreApi,
+  blockerId: string
+): BlockerLifecycle {
+  let isRegistered = false;
+  let registeredAt = 0;
+  let delayedConfig: BlockerConfig | undefined;
+  let delayTimer: ReturnType<typeof setTimeout> | undefined;
+  let removeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const cancelDelay = (): void => {
+    clearTimeout(delayTimer);
+    delayTimer = undefined;
+    delayedConfig = undefined;
+  };
+
+  const cancelRemoval = (): void => {
+    clearTimeout(removeTimer);
+    removeTimer = undefined;
+  };
+
+  const register = (config: BlockerConfig): void => {
+    store.getState().addBlocker(blockerId, config);
+    isRegistered = true;
+    registeredAt = Date.now();
+  };
+
+  const release = (): void => {
+    cancelDelay();
+    cancelRemoval();
+
+    if (isRegistered) {
+      store.getState().removeBlocker(blockerId);
+      isRegistered = false;
+    }
+  };
+
+  const sync = (
+    shouldBlock: boolean,
+    config: BlockerConfig,
+    { delay = 0, minDuration = 0 }: BlockerTiming = {}
+  ): void => {
+    if (!shouldBlock) {
+      // Blocking ended before the delay elapsed - the blocker is never shown.
+      cancelDelay();
+
+      if (!isRegistered || removeTimer !== undefined) {
+        return;
+      }
+
+      const remaining = registeredAt + minDuration - Date.now();
+
+      if (remaining > 0) {
+        removeTimer = setTimeout(release, remaining);
+      } else {
+        release();
+      }
+      return;
+    }
+
+    cancelRemoval();
+
+    if (isRegistered) {
+      const { activeBlockers, updateBlocker } = store.getState();
+
+      // The store removed the blocker on timeout - `updateBlocker` would re-add it (and restart
+      // the timeout), so leave it removed until blocking ends.
+      if (activeBlockers.has(blockerId)) {
+        updateBlocker(blockerId, config);
+      }
+      return;
+    }
+
+    if (delay <= 0) {
+      register(config);
+      return;
+    }
+
+    // Keep the original timer running so the delay counts from when blocking started.
+    delayedConfig = config;
+    delayTimer ??= setTimeout(() => {
+      const latestConfig = delayedConfig ?? config;
+      cancelDelay();
+      register(latestConfig);
+    }, delay);
+  };
+
+  const isIdle = (): boolean => !isRegistered && delayTimer === undefined;
+
+  return { sync, release, isIdle };
+}
@@ -0,0 +1,22 @@
+import type { Query, QueryClient } from "@tanstack/react-query";
+
+/**
+ * Cancels the query with the given hash via `cancelQueries({ queryKey, exact: true })`.
+ * Queries are looked up by hash so a custom `queryKeyHashFn` is respected.
+ *
+ * @param queryClient - QueryClient holding the query
+ * @param queryHash - Hash of the query to cancel
+ * @returns The cancelled query once its fetch has settled, or undefined if it is not cached
+ */
+export async function cancelQuery(
+  queryClient: QueryClient,
+  queryHash: string
+): Promise<Query | undefined> {
+  const query = queryClient.getQueryCache().get(queryHash);
+
+  if (query) {
+    await queryClient.cancelQueries({ queryKey: query.queryKey, exact: true });
+  }
+
+  return query;
+}
@@ -1,4 +1,18 @@
+export { getBlockerActions } from "./blockerActions";
+export { createBlockerLifecycle } from "./blockerLifecycle";
+export { createQueryTimeoutHandler } from "./queryTimeoutAction";
 export { useBlockingManager } from "./useBlockingManager";
+export { useBlockingManagers } from "./useBlockingManagers";
+export { useMutationBlockingRule, useQueryBlockingRule } from "./useBlockingRule";
 export { useMutationBlockerId } from "./useMutationBlockerId";
+export { useMutationInvocations } from "./useMutationInvocations";
+export { useMutationSettling } from "./useMutationSettling";
+export { useQueriesBlockerActions } from "./useQueriesBlockerActions";
+export { useQueryBlockerActions } from "./useQueryBlockerActions";
 export { useQueryBlockerId } from "./useQueryBlockerId";
+export { useQueryTimeoutAction } from "./useQueryTimeoutAction";
 export { useRandomBlockerId } from "./useRandomBlockerId";
+export { useResolvedBlockingConfig } from "./useResolvedBlockingConfig";
+export { useRetryCountdown } from "./useRetryCountdown";
+export { useSubmissionValue } from "./useSubmissionValue";
+export { useSuspenseBlocker } from "./useSuspenseBlocker";
@@ -0,0 +1,64 @@
+import { BlockingTimeoutError } from "../utils";
+import { cancelQuery } from "./cancelQuery";
+import type { QueryClient } from "@tanstack/react-query";
+import type { QueryTimeoutAction } from "../hooks/useBlockingQuery.types";
+
+/**
+ * Cancels the query and, for `'error'`, fails it with a `BlockingTimeoutError`.
+ * The error is dispatched after the cancelled fetch has reverted the query state,
+ * so existing data is kept, as with any failed refetch.
+ */
+async function applyTimeoutAction(
+  queryClient: QueryClient,
+  queryHash: string,
+  onTimeoutAction: Exclude<QueryTimeoutAction, "unblock">,
+  error: BlockingTimeoutError
+): Promise<void> {
+  const query = await cancelQuery(queryClient, queryHash);
+
+  if (query && onTimeoutAction === "error") {
+    query.setState({
+      ...query.state,
+      error,
+      errorUpdateCount: query.state.errorUpdateCount + 1,
+      errorUpdatedAt: Date.now(),
+      fetchFailureCount: query.state.fetchFailureCount + 1,
+      fetchFailureReason: error,
+      fetchStatus: "idle",
+      status: "error",
+    });
+  }
+}
+
+/**
+ * Builds the `onTimeout` handler of a query blocker that applies `onTimeoutAction`.
+ *
+ * The store only removes a timed-out blocker, so the request would keep running.
+ * With `'cancel'` or `'error'` the returned handler also cancels the query via
+ * `cancelQueries({ queryKey, exact: true })`, then calls the configured `onTimeout`.
+ * Shared by the query hooks and `attachBlocking`.
+ *
+ * @param queryClient - QueryClient holding the query
+ * @param queryHash - Hash of the query the blocker belongs to
+ * @param onTimeoutAction - What to do with the request on timeout
+ * @param timeout - Timeout of the blocker, in milliseconds
+ * @param onTimeout - Callback from the blocking config
+ * @returns The handler, or the configured callback for `'unblock'`
+ */
+export function createQueryTimeoutHandler(
+  queryClient: QueryClient,
+  queryHash: string,
+  onTimeoutAction: QueryTimeoutAction,
+  timeout: number | undefined,
+  onTimeout: ((blockerId: string) => void) | undefined
+): ((blockerId: string) => void) | undefined {
+  if (onTimeoutAction === "unblock") {
+    return onTimeout;
+  }
+
+  return (blockerId) => {
+    const error = new BlockingTimeoutError(blockerId, timeout ?? 0);
+    void applyTimeoutAction(queryClient, queryHash, onTimeoutAction, error);
+    onTimeout?.(blockerId);
+  };
+}
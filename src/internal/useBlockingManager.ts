@@ -1,5 +1,7 @@
-import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
-import { useEffect, useRef } from "react";
+import { useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useEffect, useMemo } from "react";
+import { registerBlockerActions } from "./blockerActions";
+import { createBlockerLifecycle } from "./blockerLifecycle";
 import { UseBlockingManagerOptions } from "./useBlockingManager.types";
 
 /**
@@ -7,8 +9,11 @@ import { UseBlockingManagerOptions } from "./useBlockingManager.types";
  * Centralizes the common blocker management logic used across all blocking hooks.
  *
  * This hook handles:
+ * - Resolving the nearest `UIBlockingProvider` store (falls back to the global store)
  * - Adding/removing blockers based on shouldBlock condition
- * - Automatic cleanup on unmount
+ * - Anti-flicker timing (`delay` before adding, `minDuration` before removing)
+ * - Attaching cancel/retry `actions` to the blocker ID for `useBlockerActions`
+ * - Automatic cleanup on unmount (pending timers are cancelled and the blocker is removed immediately)
  * - Dependency tracking for re-evaluation
  *
  * @param options - Configuration for blocker management
@@ -22,46 +27,39 @@ export function useBlockingManager(
     priority,
     timeout,
     onTimeout,
+    delay,
+    minDuration,
+    actions,
   }: UseBlockingManagerOptions
 ): void {
-  const { addBlocker, updateBlocker, removeBlocker } = uiBlockingStoreApi.getState();
+  const storeApi = useResolvedStoreApi();
 
-  // Track whether this hook instance currently owns an active blocker.
-  const isRegisteredRef = useRef(false);
+  // One lifecycle per store/blocker ID; it tracks whether this instance owns an active blocker.
+  const lifecycle = useMemo(
+    () => createBlockerLifecycle(storeApi, blockerId),
+    [storeApi, blockerId]
+  );
 
   useEffect(() => {
     return () => {
-      if (isRegisteredRef.current) {
-        removeBlocker(blockerId);
-        isRegisteredRef.current = false;
-      }
+      lifecycle.release();
     };
-  }, [blockerId, removeBlocker]);
+  }, [lifecycle]);
 
+  // Registered before the blocker is added, so readers never see a blocker without its actions.
   useEffect(() => {
-    const blockerConfig = { scope, reason, priority, timeout, onTimeout };
-
-    if (shouldBlock) {
-      if (isRegisteredRef.current) {
-        updateBlocker(blockerId, blockerConfig);
-      } else {
-        addBlocker(blockerId, blockerConfig);
-        isRegisteredRef.current = true;
-      }
-    } else if (isRegisteredRef.current) {
-      removeBlocker(blockerId);
-      isRegisteredRef.current = false;
+    if (!actions) {
+      return;
     }
-  }, [
-    addBlocker,
-    updateBlocker,
-    blockerId,
-    priority,
-    reason,
-    removeBlocker,
-    scope,
-    shouldBlock,
-    timeout,
-    onTimeout,
-  ]);
+
+    return registerBlockerActions(storeApi, blockerId, actions);
+  }, [storeApi, blockerId, actions]);
+
+  useEffect(() => {
+    lifecycle.sync(
+      shouldBlock,
+      { scope, reason, priority, timeout, onTimeout },
+      { delay, minDuration }
+    );
+  }, [lifecycle, shouldBlock, scope, reason, priority, timeout, onTimeout, delay, minDuration]);
 }
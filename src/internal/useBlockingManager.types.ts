@@ -1,3 +1,5 @@
+import type { BlockerActions } from "../types";
+
 export interface UseBlockingManagerOptions {
   /** Unique identifier for this blocker */
   blockerId: string;
@@ -13,4 +15,10 @@ export interface UseBlockingManagerOptions {
   timeout?: number;
   /** Callback invoked when the blocker is removed due to timeout */
   onTimeout?: (blockerId: string) => void;
+  /** Only add the blocker once blocking has lasted N milliseconds */
+  delay?: number;
+  /** Keep an added blocker for at least N milliseconds */
+  minDuration?: number;
+  /** Cancel/retry actions exposed to `useBlockerActions` (memoize to avoid re-registering) */
+  actions?: BlockerActions;
 }
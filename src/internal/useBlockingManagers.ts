@@ -0,0 +1,125 @@
+import { useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useEffect, useRef } from "react";
+import { registerBlockerActions } from "./blockerActions";
+import {
+  type BlockerLifecycle,
+  type BlockerTiming,
+  createBlockerLifecycle,
+} from "./blockerLifecycle";
+import type { BlockerConfig } from "@okyrychenko-dev/react-action-guard";
+import type { BlockerActions } from "../types";
+import type { UseBlockingManagerOptions } from "./useBlockingManager.types";
+
+interface ManagedBlocker {
+  lifecycle: BlockerLifecycle;
+  shouldBlock: boolean;
+  config: BlockerConfig;
+  timing: BlockerTiming;
+  actions: BlockerActions | undefined;
+  unregisterActions: (() => void) | undefined;
+}
+
+function isSameScope(a: BlockerConfig["scope"], b: BlockerConfig["scope"]): boolean {
+  if (typeof a === "string" || typeof b === "string" || !a || !b) {
+    return a === b;
+  }
+
+  return a.length === b.length && a.every((scope, index) => scope === b[index]);
+}
+
+function isSameBlocker(
+  previous: ManagedBlocker,
+  shouldBlock: boolean,
+  config: BlockerConfig,
+  timing: BlockerTiming
+): boolean {
+  return (
+    previous.shouldBlock === shouldBlock &&
+    previous.timing.delay === timing.delay &&
+    previous.timing.minDuration === timing.minDuration &&
+    isSameScope(previous.config.scope, config.scope) &&
+    previous.config.reason === config.reason &&
+    previous.config.priority === config.priority &&
+    previous.config.timeout === config.timeout &&
+    previous.config.onTimeout === config.onTimeout
+  );
+}
+
+/**
+ * Manages a dynamic set of blockers, e.g. one per entry of `useBlockingQueries`.
+ * Hooks cannot be called per array entry, so this keeps one lifecycle per blocker ID:
+ * new IDs are added, changed blockers are updated, and IDs that disappear stop blocking
+ * (after `minDuration`); their lifecycles and `actions` are dropped once idle. All blockers
+ * are removed on unmount.
+ *
+ * @param blockers - Blockers to keep in sync (IDs must be unique)
+ */
+export function useBlockingManagers(blockers: ReadonlyArray<UseBlockingManagerOptions>): void {
+  const storeApi = useResolvedStoreApi();
+  const managedRef = useRef(new Map<string, ManagedBlocker>());
+
+  useEffect(() => {
+    const managed = managedRef.current;
+
+    return () => {
+      managed.forEach(({ lifecycle, unregisterActions }) => {
+        lifecycle.release();
+        unregisterActions?.();
+      });
+      managed.clear();
+    };
+  }, [storeApi]);
+
+  useEffect(() => {
+    const managed = managedRef.current;
+    const activeIds = new Set<string>();
+
+    blockers.forEach(({ blockerId, shouldBlock, delay, minDuration, actions, ...config }) => {
+      const timing: BlockerTiming = { delay, minDuration };
+      const previous = managed.get(blockerId);
+      activeIds.add(blockerId);
+
+      // Registered before the blocker is added, so readers never see a blocker without its actions.
+      let unregisterActions = previous?.unregisterActions;
+
+      if (previous?.actions !== actions) {
+        unregisterActions?.();
+        unregisterActions = actions && registerBlockerActions(storeApi, blockerId, actions);
+      }
+
+      // Re-syncing unchanged blockers would notify store subscribers on every render.
+      if (previous && isSameBlocker(previous, shouldBlock, config, timing)) {
+        managed.set(blockerId, { ...previous, actions, unregisterActions });
+        return;
+      }
+
+      const lifecycle = previous?.lifecycle ?? createBlockerLifecycle(storeApi, blockerId);
+      lifecycle.sync(shouldBlock, config, timing);
+      managed.set(blockerId, {
+        lifecycle,
+        shouldBlock,
+        config,
+        timing,
+        actions,
+        unregisterActions,
+      });
+    });
+
+    managed.forEach((previous, blockerId) => {
+      if (activeIds.has(blockerId)) {
+        return;
+      }
+
+      // Ended like any other blocking state, so `minDuration` still applies.
+      if (previous.shouldBlock) {
+        previous.lifecycle.sync(false, previous.config, previous.timing);
+        managed.set(blockerId, { ...previous, shouldBlock: false });
+      }
+
+      if (previous.lifecycle.isIdle()) {
+        previous.unregisterActions?.();
+        managed.delete(blockerId);
+      }
+    });
+  });
+}
@@ -0,0 +1,38 @@
+import { useBlockingRules } from "../providers";
+import { findMutationBlockingRule, findQueryBlockingRule } from "../utils";
+import type { MutationKey, QueryKey } from "@tanstack/react-query";
+import type { MutationBlockingRule, QueryBlockingRule } from "../providers";
+
+/**
+ * Resolves the first declared rule matching any of the given query keys.
+ *
+ * @param queryKeys - Query keys to match, in order
+ * @returns The matching query rule, if any
+ */
+export function useQueryBlockingRule(
+  queryKeys: ReadonlyArray<QueryKey>
+): QueryBlockingRule | undefined {
+  const rules = useBlockingRules();
+
+  for (const queryKey of queryKeys) {
+    const rule = findQueryBlockingRule(rules, queryKey);
+
+    if (rule) {
+      return rule;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the first declared rule matching the given mutation key.
+ *
+ * @param mutationKey - Mutation key to match
+ * @returns The matching mutation rule, if any
+ */
+export function useMutationBlockingRule(
+  mutationKey: MutationKey | undefined
+): MutationBlockingRule | undefined {
+  return findMutationBlockingRule(useBlockingRules(), mutationKey);
+}
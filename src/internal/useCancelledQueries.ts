@@ -0,0 +1,98 @@
+import { type FetchStatus, type QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useState } from "react";
+import { cancelQuery } from "./cancelQuery";
+
+/**
+ * Fetch status of one query watched by `useCancelledQueries`.
+ */
+export interface QueryFetch {
+  /** Hash of the query */
+  queryHash: string;
+  /** Current `fetchStatus` of the query result */
+  fetchStatus: FetchStatus;
+}
+
+interface CancelledQueries {
+  /** Hashes of queries cancelled through `cancel` that have not fetched since */
+  cancelledHashes: ReadonlySet<string>;
+  /** Cancels the queries via `cancelQueries` and marks them as cancelled */
+  cancel: (queryHashes: ReadonlyArray<string>) => void;
+  /** Clears the mark, e.g. right before a retry */
+  resume: (queryHashes: ReadonlyArray<string>) => void;
+}
+
+/**
+ * Tracks queries cancelled from a blocker action.
+ *
+ * A cancelled query without data reverts to pending, which would keep `onLoading` blocking,
+ * so hooks release the blocker of a cancelled query until `resume` is called or the query
+ * starts its next fetch. Queries that are no longer watched are forgotten.
+ *
+ * @param queries - Watched queries with their current fetch status
+ * @param queryClient - Optional QueryClient instance
+ * @returns Cancelled query hashes and the functions that update them
+ */
+export function useCancelledQueries(
+  queries: ReadonlyArray<QueryFetch>,
+  queryClient?: QueryClient
+): CancelledQueries {
+  const client = useQueryClient(queryClient);
+  // Last seen fetch status per cancelled query, to detect its next fetch.
+  const [cancelled, setCancelled] = useState<ReadonlyMap<string, FetchStatus>>(() => new Map());
+
+  let next: Map<string, FetchStatus> | undefined;
+
+  for (const [queryHash, lastFetchStatus] of cancelled) {
+    const query = queries.find((candidate) => candidate.queryHash === queryHash);
+
+    if (query?.fetchStatus === lastFetchStatus) {
+      continue;
+    }
+
+    next ??= new Map(cancelled);
+
+    if (!query || query.fetchStatus === "fetching") {
+      next.delete(queryHash);
+    } else {
+      next.set(queryHash, query.fetchStatus);
+    }
+  }
+
+  if (next) {
+    setCancelled(next);
+  }
+
+  const cancel = useCallback(
+    (queryHashes: ReadonlyArray<string>) => {
+      setCancelled((previous) => {
+        const updated = new Map(previous);
+
+        // Counts the cancelled request as the current fetch, so only a later one clears the mark.
+        queryHashes.forEach((queryHash) => {
+          updated.set(queryHash, "fetching");
+        });
+
+        return updated;
+      });
+
+      queryHashes.forEach((queryHash) => {
+        void cancelQuery(client, queryHash);
+      });
+    },
+    [client]
+  );
+
+  const resume = useCallback((queryHashes: ReadonlyArray<string>) => {
+    setCancelled((previous) => {
+      const updated = new Map(previous);
+
+      queryHashes.forEach((queryHash) => {
+        updated.delete(queryHash);
+      });
+
+      return updated;
+    });
+  }, []);
+
+  return { cancelledHashes: new Set((next ?? cancelled).keys()), cancel, resume };
+}
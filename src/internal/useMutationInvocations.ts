@@ -0,0 +1,142 @@
+import {
+  type MutationState,
+  type QueryClient,
+  useMutationState,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { UseBlockingMutationResult } from "../hooks/useBlockingMutation.types";
+
+/**
+ * A pending mutation started by the hook instance.
+ */
+export interface MutationInvocation<TData, TError, TVariables, TOnMutateResult> {
+  /** MutationCache ID of the mutation */
+  mutationId: number;
+  /** Current state of the mutation */
+  state: MutationState<TData, TError, TVariables, TOnMutateResult>;
+}
+
+type MutateFunctions<TData, TError, TVariables, TOnMutateResult> = Pick<
+  UseBlockingMutationResult<TData, TError, TVariables, TOnMutateResult>,
+  "mutate" | "mutateAsync"
+>;
+
+interface MutationInvocations<TData, TError, TVariables, TOnMutateResult>
+  extends MutateFunctions<TData, TError, TVariables, TOnMutateResult> {
+  /** Pending mutations started through the returned `mutate` / `mutateAsync`, oldest first */
+  invocations: Array<MutationInvocation<TData, TError, TVariables, TOnMutateResult>>;
+  /** Stops tracking a pending mutation; the mutation itself keeps running */
+  dismiss: (mutationId: number) => void;
+}
+
+/**
+ * Tracks every pending mutation started by one `useMutation` instance.
+ *
+ * The observer behind `useMutation` only reports its latest mutation, so the returned
+ * `mutate` / `mutateAsync` record the ID of the mutation the MutationCache adds during each call
+ * (it is built synchronously) and the tracked mutations are read back from the cache.
+ * IDs are dropped once their mutation settles or is removed, or when it is dismissed.
+ *
+ * @param mutateFunctions - `mutate` / `mutateAsync` to wrap
+ * @param enabled - Whether to track invocations
+ * @param queryClient - Optional QueryClient instance
+ * @returns Pending invocations and the tracking `mutate` / `mutateAsync`
+ */
+export function useMutationInvocations<TData, TError, TVariables, TOnMutateResult>(
+  {
+    mutate: baseMutate,
+    mutateAsync: baseMutateAsync,
+  }: MutateFunctions<TData, TError, TVariables, TOnMutateResult>,
+  enabled: boolean,
+  queryClient?: QueryClient
+): MutationInvocations<TData, TError, TVariables, TOnMutateResult> {
+  const mutationCache = useQueryClient(queryClient).getMutationCache();
+  const trackedIdsRef = useRef(new Set<number>());
+  // `useMutationState` only re-reads the cache on cache events, so dismissed IDs are filtered here.
+  const [dismissedIds, setDismissedIds] = useState<ReadonlySet<number>>(() => new Set());
+
+  const invocations = useMutationState(
+    {
+      filters: {
+        status: "pending",
+        predicate: (mutation) => trackedIdsRef.current.has(mutation.mutationId),
+      },
+      select: (mutation) => ({
+        mutationId: mutation.mutationId,
+        state: mutation.state as MutationState<TData, TError, TVariables, TOnMutateResult>,
+      }),
+    },
+    queryClient
+  );
+
+  useEffect(() => {
+    const trackedIds = trackedIdsRef.current;
+
+    return mutationCache.subscribe((event) => {
+      if (!event.mutation || !trackedIds.has(event.mutation.mutationId)) {
+        return;
+      }
+
+      const { status } = event.mutation.state;
+
+      // New mutations are still idle when their observer is added, so only drop settled ones.
+      if (event.type === "removed" || status === "success" || status === "error") {
+        trackedIds.delete(event.mutation.mutationId);
+      }
+    });
+  }, [mutationCache]);
+
+  const track = useCallback(
+    <TResult>(run: () => TResult): TResult => {
+      if (!enabled) {
+        return run();
+      }
+
+      const unsubscribe = mutationCache.subscribe((event) => {
+        if (event.type === "added") {
+          trackedIdsRef.current.add(event.mutation.mutationId);
+        }
+      });
+
+      try {
+        return run();
+      } finally {
+        unsubscribe();
+      }
+    },
+    [enabled, mutationCache]
+  );
+
+  const mutate = useCallback<typeof baseMutate>(
+    (variables, options) => {
+      track(() => {
+        baseMutate(variables, options);
+      });
+    },
+    [baseMutate, track]
+  );
+
+  const mutateAsync = useCallback<typeof baseMutateAsync>(
+    (variables, options) => track(() => baseMutateAsync(variables, options)),
+    [baseMutateAsync, track]
+  );
+
+  const dismiss = useCallback((mutationId: number) => {
+    trackedIdsRef.current.delete(mutationId);
+    setDismissedIds((previous) => new Set(previous).add(mutationId));
+  }, []);
+
+  // Kept stable while nothing changes, so per-invocation values can be memoized on it.
+  const trackedInvocations = useMemo(
+    () => invocations.filter(({ mutationId }) => !dismissedIds.has(mutationId)),
+    [invocations, dismissedIds]
+  );
+
+  return {
+    invocations: trackedInvocations,
+    dismiss,
+    mutate,
+    mutateAsync,
+  };
+}
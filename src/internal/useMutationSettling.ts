@@ -0,0 +1,111 @@
+import {
+  type MutateOptions,
+  type QueryClient,
+  type QueryFilters,
+  type UseMutationResult,
+  useIsFetching,
+} from "@tanstack/react-query";
+import { useCallback, useState } from "react";
+import { isPromiseLike } from "../utils";
+import type {
+  BlockingMutateOptions,
+  MutationWaitFor,
+  UseBlockingMutationResult,
+} from "../hooks/useBlockingMutation.types";
+
+const NO_QUERIES: QueryFilters = { predicate: () => false };
+
+interface MutationSettling<TData, TError, TVariables, TOnMutateResult> {
+  /** Whether the mutation succeeded and its `waitFor` work is still running */
+  isSettling: boolean;
+  /** `mutate` that tracks promises returned by its `onSuccess` option */
+  mutate: UseBlockingMutationResult<TData, TError, TVariables, TOnMutateResult>["mutate"];
+  /** `mutateAsync` that tracks promises returned by its `onSuccess` option */
+  mutateAsync: UseBlockingMutationResult<TData, TError, TVariables, TOnMutateResult>["mutateAsync"];
+}
+
+/**
+ * Tracks the follow-up work a succeeded mutation waits for (`waitFor`).
+ *
+ * - `'onSuccess'`: the returned `mutate`/`mutateAsync` wrap the per-call `onSuccess` option and
+ *   count the promises it returns until they settle.
+ * - `QueryFilters`: the queries matching the filters are watched once the mutation succeeds.
+ *   The phase ends the first time none of them is fetching, so later unrelated refetches
+ *   of the same queries never block again for this submission.
+ *
+ * @param mutation - Result of `useMutation`
+ * @param waitFor - Follow-up work to wait for, if any
+ * @param queryClient - Optional QueryClient instance
+ * @returns Settling flag and `mutate`/`mutateAsync` wrappers
+ */
+export function useMutationSettling<TData, TError, TVariables, TOnMutateResult>(
+  mutation: UseMutationResult<TData, TError, TVariables, TOnMutateResult>,
+  waitFor: MutationWaitFor | undefined,
+  queryClient?: QueryClient
+): MutationSettling<TData, TError, TVariables, TOnMutateResult> {
+  const filters = typeof waitFor === "object" ? waitFor : undefined;
+  const fetchingCount = useIsFetching(filters ?? NO_QUERIES, queryClient);
+  const [pendingCallbacks, setPendingCallbacks] = useState(0);
+  const [settledSubmission, setSettledSubmission] = useState(0);
+
+  const isWaitingForQueries =
+    filters !== undefined && mutation.isSuccess && mutation.submittedAt !== settledSubmission;
+
+  if (isWaitingForQueries && fetchingCount === 0) {
+    setSettledSubmission(mutation.submittedAt);
+  }
+
+  const isSettling =
+    mutation.isSuccess &&
+    ((waitFor === "onSuccess" && pendingCallbacks > 0) ||
+      (isWaitingForQueries && fetchingCount > 0));
+
+  const trackOnSuccess = useCallback(
+    (
+      options: BlockingMutateOptions<TData, TError, TVariables, TOnMutateResult> | undefined
+    ): MutateOptions<TData, TError, TVariables, TOnMutateResult> | undefined => {
+      const onSuccess = options?.onSuccess;
+
+      if (!onSuccess) {
+        return options;
+      }
+
+      return {
+        ...options,
+        onSuccess: (...args) => {
+          const result = onSuccess(...args);
+
+          if (isPromiseLike(result)) {
+            const release = (): void => {
+              setPendingCallbacks((count) => count - 1);
+            };
+
+            setPendingCallbacks((count) => count + 1);
+            result.then(release, release);
+          }
+        },
+      };
+    },
+    []
+  );
+
+  const { mutate: baseMutate, mutateAsync: baseMutateAsync } = mutation;
+
+  const mutate = useCallback<
+    MutationSettling<TData, TError, TVariables, TOnMutateResult>["mutate"]
+  >(
+    (variables, options) => {
+      baseMutate(variables, trackOnSuccess(options));
+    },
+    [baseMutate, trackOnSuccess]
+  );
+
+  const mutateAsync = useCallback<
+    MutationSettling<TData, TError, TVariables, TOnMutateResult>["mutateAsync"]
+  >(
+    (variables, options) => baseMutateAsync(variables, trackOnSuccess(options)),
+    [baseMutateAsync, trackOnSuccess]
+  );
+
+  return { isSettling, mutate, mutateAsync };
+}
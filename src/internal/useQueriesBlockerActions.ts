@@ -0,0 +1,88 @@
+import { useMemo, useState } from "react";
+import { type QueryFetch, useCancelledQueries } from "./useCancelledQueries";
+import type { QueryClient } from "@tanstack/react-query";
+import type { BlockerActions } from "../types";
+
+/**
+ * A query of a `useQueries` set, with the `refetch` of its result.
+ */
+interface QueryTarget extends QueryFetch {
+  /** `refetch` of the query result (stable per observer) */
+  refetch: () => Promise<unknown>;
+}
+
+interface QueriesBlockerActions {
+  /** Actions of the shared blocker: cancel or refetch every query */
+  actions: BlockerActions;
+  /** Actions of each query, in the order of the queries */
+  entryActions: ReadonlyArray<BlockerActions>;
+  /** Hashes of cancelled queries that have not fetched since (see `useCancelledQueries`) */
+  cancelledHashes: ReadonlySet<string>;
+}
+
+function isSameTargets(
+  previous: ReadonlyArray<QueryTarget>,
+  queries: ReadonlyArray<QueryTarget>
+): boolean {
+  return (
+    previous.length === queries.length &&
+    previous.every(
+      (target, index) =>
+        target.queryHash === queries[index].queryHash && target.refetch === queries[index].refetch
+    )
+  );
+}
+
+/**
+ * Builds the blocker actions of a set of queries, like `useQueryBlockerActions` for one query.
+ *
+ * The actions are memoized until a query hash or `refetch` changes, so the blockers don't
+ * re-register them on every render.
+ *
+ * @param queries - Queries of the set with their fetch status and `refetch`
+ * @param queryClient - Optional QueryClient instance
+ * @returns Shared and per-query actions, and the cancelled queries
+ */
+export function useQueriesBlockerActions(
+  queries: ReadonlyArray<QueryTarget>,
+  queryClient?: QueryClient
+): QueriesBlockerActions {
+  const { cancelledHashes, cancel, resume } = useCancelledQueries(queries, queryClient);
+  const [targets, setTargets] = useState(queries);
+
+  const isChanged = !isSameTargets(targets, queries);
+  const currentTargets = isChanged ? queries : targets;
+
+  if (isChanged) {
+    setTargets(queries);
+  }
+
+  const { actions, entryActions } = useMemo(() => {
+    const queryHashes = currentTargets.map(({ queryHash }) => queryHash);
+
+    return {
+      actions: {
+        cancel: () => {
+          cancel(queryHashes);
+        },
+        retry: () => {
+          resume(queryHashes);
+          currentTargets.forEach(({ refetch }) => {
+            void refetch();
+          });
+        },
+      },
+      entryActions: currentTargets.map(({ queryHash, refetch }) => ({
+        cancel: () => {
+          cancel([queryHash]);
+        },
+        retry: () => {
+          resume([queryHash]);
+          void refetch();
+        },
+      })),
+    };
+  }, [cancel, resume, currentTargets]);
+
+  return { actions, entryActions, cancelledHashes };
+}
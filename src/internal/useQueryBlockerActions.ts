@@ -0,0 +1,52 @@
+import { useMemo } from "react";
+import { useCancelledQueries } from "./useCancelledQueries";
+import type { FetchStatus, QueryClient } from "@tanstack/react-query";
+import type { BlockerActions } from "../types";
+
+interface QueryBlockerActions {
+  /** Actions to attach to the blocker */
+  actions: BlockerActions;
+  /** Whether `cancel` was called and no fetch has started since - the blocker should be released */
+  isCancelled: boolean;
+}
+
+/**
+ * Builds the blocker actions of a query: `cancel` cancels it via `cancelQueries` and
+ * `retry` calls the observer's `refetch`.
+ *
+ * A cancelled query without data reverts to pending, which would keep `onLoading` blocking,
+ * so `isCancelled` tells the hook to release its blocker until `retry` or any other fetch
+ * starts (see `useCancelledQueries`).
+ *
+ * @param queryHash - Hash of the query
+ * @param fetchStatus - Current `fetchStatus` of the query result
+ * @param refetch - `refetch` of the query result (stable per observer)
+ * @param queryClient - Optional QueryClient instance
+ * @returns Memoized actions and the cancellation state
+ */
+export function useQueryBlockerActions(
+  queryHash: string,
+  fetchStatus: FetchStatus,
+  refetch: () => Promise<unknown>,
+  queryClient?: QueryClient
+): QueryBlockerActions {
+  const { cancelledHashes, cancel, resume } = useCancelledQueries(
+    [{ queryHash, fetchStatus }],
+    queryClient
+  );
+
+  const actions = useMemo<BlockerActions>(
+    () => ({
+      cancel: () => {
+        cancel([queryHash]);
+      },
+      retry: () => {
+        resume([queryHash]);
+        void refetch();
+      },
+    }),
+    [cancel, resume, queryHash, refetch]
+  );
+
+  return { actions, isCancelled: cancelledHashes.has(queryHash) };
+}
@@ -0,0 +1,35 @@
+import { type QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { createQueryTimeoutHandler } from "./queryTimeoutAction";
+import type { QueryTimeoutAction } from "../hooks/useBlockingQuery.types";
+
+interface UseQueryTimeoutActionOptions {
+  /** Hash of the query the blocker belongs to */
+  queryHash: string;
+  /** What to do with the request on timeout */
+  onTimeoutAction: QueryTimeoutAction;
+  /** Timeout of the blocker, in milliseconds */
+  timeout: number | undefined;
+  /** Callback from the blocking config */
+  onTimeout: ((blockerId: string) => void) | undefined;
+}
+
+/**
+ * Memoized `onTimeout` handler of a query blocker that applies `onTimeoutAction`
+ * (see `createQueryTimeoutHandler`).
+ *
+ * @param options - Query hash, action and configured timeout callback
+ * @param queryClient - Optional QueryClient instance
+ * @returns Stable `onTimeout` handler, or the configured callback for `'unblock'`
+ */
+export function useQueryTimeoutAction(
+  { queryHash, onTimeoutAction, timeout, onTimeout }: UseQueryTimeoutActionOptions,
+  queryClient?: QueryClient
+): ((blockerId: string) => void) | undefined {
+  const client = useQueryClient(queryClient);
+
+  return useMemo(
+    () => createQueryTimeoutHandler(client, queryHash, onTimeoutAction, timeout, onTimeout),
+    [client, queryHash, onTimeoutAction, timeout, onTimeout]
+  );
+}
@@ -0,0 +1,24 @@
+import { useBlockingDefaults } from "../providers";
+import { mergeBlockingConfig } from "../utils";
+import type { BlockingDefaults } from "../providers";
+
+/**
+ * Resolves the effective blocking config for a hook.
+ * Precedence: local `blockingConfig` > matched rule > `BlockingDefaultsProvider` defaults.
+ * Built-in defaults are applied by the hook itself when destructuring the result.
+ *
+ * @param kind - Hook kind used to pick provider defaults
+ * @param ruleConfig - Config from the matched blocking rule
+ * @param localConfig - Config passed to the hook
+ * @returns The effective config, or undefined when neither a rule nor a local config exists
+ */
+export function useResolvedBlockingConfig<TKind extends keyof BlockingDefaults>(
+  kind: TKind,
+  ruleConfig: BlockingDefaults[TKind],
+  localConfig: BlockingDefaults[TKind]
+): BlockingDefaults[TKind] {
+  const defaults = useBlockingDefaults()[kind];
+  const config = mergeBlockingConfig(ruleConfig, localConfig);
+
+  return config && mergeBlockingConfig(defaults, config);
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react";
+import { type RetryDelayOption, resolveRetryDelay } from "../utils";
+
+interface UseRetryCountdownOptions<TError> {
+  /** Number of failed attempts of the current fetch or mutation */
+  failureCount: number;
+  /** Error of the last failed attempt (always set while retrying) */
+  failureReason: TError | null;
+  /** Resolved `retryDelay` option (default: TanStack Query's exponential backoff) */
+  retryDelay: RetryDelayOption<TError>;
+  /** Whether a failed attempt is being retried */
+  isRetrying: boolean;
+  /** Whether to re-render every second until the next attempt starts */
+  isTicking: boolean;
+}
+
+/**
+ * Placeholder values describing a retry in progress.
+ */
+export interface RetryCountdown {
+  /** Number of the upcoming (or running) attempt, starting at 2 for the first retry */
+  attempt: number;
+  /** Whole seconds until the next attempt starts (0 once it is running) */
+  retryIn: number;
+}
+
+/**
+ * Tracks the attempt number and the countdown to the next retry of a query or mutation.
+ *
+ * TanStack Query does not expose when an attempt failed, so the time is recorded when
+ * `failureReason` changes (every failed attempt reports a new error). While `isTicking` is set,
+ * the hook re-renders on every whole second until the next attempt starts, so a `{retryIn}`
+ * reason counts down in the blocker.
+ *
+ * @param options - Failure state and retry configuration
+ * @returns Values for the `{attempt}` and `{retryIn}` reason placeholders
+ */
+export function useRetryCountdown<TError>({
+  failureCount,
+  failureReason,
+  retryDelay,
+  isRetrying,
+  isTicking,
+}: UseRetryCountdownOptions<TError>): RetryCountdown {
+  const delay = isRetrying
+    ? resolveRetryDelay(retryDelay, failureCount, failureReason as TError)
+    : 0;
+  const failureRef = useRef<{ failureReason: TError | null; failedAt: number }>({
+    failureReason: null,
+    failedAt: 0,
+  });
+  const [countdown, setCountdown] = useState<{ failureReason: TError | null; retryIn: number }>({
+    failureReason: null,
+    retryIn: 0,
+  });
+
+  // A new failure shows the full delay until the first tick.
+  let retryIn = 0;
+
+  if (isRetrying) {
+    retryIn =
+      countdown.failureReason === failureReason ? countdown.retryIn : Math.ceil(delay / 1000);
+  }
+
+  useEffect(() => {
+    if (failureRef.current.failureReason !== failureReason) {
+      failureRef.current = { failureReason, failedAt: Date.now() };
+    }
+
+    if (!isRetrying || !isTicking) {
+      return undefined;
+    }
+
+    const nextAttemptAt = failureRef.current.failedAt + delay;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Wake up whenever the displayed number of seconds changes.
+    const scheduleTick = (): void => {
+      const remaining = nextAttemptAt - Date.now();
+
+      timer = setTimeout(
+        () => {
+          const left = Math.max(nextAttemptAt - Date.now(), 0);
+          setCountdown({ failureReason, retryIn: Math.ceil(left / 1000) });
+
+          if (left > 0) {
+            scheduleTick();
+          }
+        },
+        remaining - (Math.ceil(remaining / 1000) - 1) * 1000
+      );
+    };
+
+    if (nextAttemptAt > Date.now()) {
+      scheduleTick();
+    }
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [failureReason, isRetrying, isTicking, delay]);
+
+  return { attempt: failureCount + 1, retryIn };
+}
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { resolveVariablesValue } from "../utils";
+import type { MutationVariablesValue } from "../hooks/useBlockingMutation.types";
+
+interface SubmissionValue<TValue> {
+  /** `submittedAt` of the submission the value was resolved for */
+  submittedAt: number;
+  /** Value resolved from the submission variables */
+  value: TValue;
+}
+
+/**
+ * Resolves a config value that may be a function of the mutation variables.
+ *
+ * Functions are called once per submission (`mutate` call) and the result is kept until the
+ * next one, so inline functions returning new arrays don't update the blocker on every render.
+ * Static values are returned as-is.
+ *
+ * @param value - Static value or function of the variables
+ * @param variables - Variables of the current submission
+ * @param submittedAt - `submittedAt` of the current submission (0 while idle)
+ * @returns The resolved value, or undefined for functions while no submission exists
+ */
+export function useSubmissionValue<TValue, TVariables>(
+  value: MutationVariablesValue<TValue, TVariables> | undefined,
+  variables: TVariables | undefined,
+  submittedAt: number
+): TValue | undefined {
+  const [resolved, setResolved] = useState<SubmissionValue<TValue> | undefined>(undefined);
+
+  if (typeof value !== "function") {
+    return value;
+  }
+
+  if (submittedAt === 0) {
+    return undefined;
+  }
+
+  if (resolved?.submittedAt === submittedAt) {
+    return resolved.value;
+  }
+
+  const next = resolveVariablesValue(value, variables as TVariables);
+  setResolved({ submittedAt, value: next });
+
+  return next;
+}
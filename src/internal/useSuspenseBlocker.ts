@@ -0,0 +1,49 @@
+import { useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { isPromiseLike } from "../utils";
+import type { UseBlockingManagerOptions } from "./useBlockingManager.types";
+
+/**
+ * Registers a blocker while a suspense hook is suspended.
+ *
+ * A suspended component never commits, so effects (and `useBlockingManager`) cannot run.
+ * Instead, the returned tracker is called with whatever the suspense hook threw: when it is
+ * the query promise, a blocker is added immediately and removed once the promise settles.
+ * Errors and other thrown values are ignored so they reach the nearest error boundary untouched.
+ *
+ * The blocker ID must be derived from the query key rather than `useId`: a component that
+ * suspends on mount gets a fresh `useId` value on every retry. Instances sharing a key wait
+ * on the same promise, so they can safely share the suspended blocker.
+ *
+ * @param options - Blocker configuration applied while suspended (`blockerId` must be key-based)
+ * @returns Tracker to call from the `catch` block around the suspense hook
+ */
+export function useSuspenseBlocker({
+  blockerId,
+  shouldBlock,
+  scope,
+  reason,
+  priority,
+  timeout,
+  onTimeout,
+}: UseBlockingManagerOptions): (thrown: unknown) => void {
+  const storeApi = useResolvedStoreApi();
+
+  return (thrown) => {
+    if (!shouldBlock || !isPromiseLike(thrown)) {
+      return;
+    }
+
+    const { addBlocker, removeBlocker, activeBlockers } = storeApi.getState();
+
+    // Re-renders of a still-suspended tree must not restart the blocker timeout.
+    if (!activeBlockers.has(blockerId)) {
+      addBlocker(blockerId, { scope, reason, priority, timeout, onTimeout });
+    }
+
+    const release = (): void => {
+      removeBlocker(blockerId);
+    };
+
+    thrown.then(release, release);
+  };
+}
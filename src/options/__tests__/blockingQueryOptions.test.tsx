@@ -0,0 +1,93 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { useQuery } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useBlockingMutation } from "../../hooks/useBlockingMutation";
+import { useBlockingQuery } from "../../hooks/useBlockingQuery";
+import { createTestQueryClient, createWrapper } from "../../test/test.utils";
+import { blockingMutationOptions } from "../blockingMutationOptions";
+import { blockingQueryOptions } from "../blockingQueryOptions";
+
+describe("blockingQueryOptions", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should return the options unchanged", () => {
+    const options = {
+      queryKey: ["user", 1],
+      queryFn: () => Promise.resolve({ id: 1 }),
+      blockingConfig: { scope: "profile" },
+    };
+
+    expect(blockingQueryOptions(options)).toBe(options);
+  });
+
+  it("should feed useBlockingQuery with the bundled blockingConfig", async () => {
+    const options = blockingQueryOptions({
+      queryKey: ["user", 1],
+      queryFn: () => new Promise<{ id: number }>(() => undefined),
+      blockingConfig: { scope: "profile", reasonOnLoading: "Loading user..." },
+    });
+
+    renderHook(() => useBlockingQuery(options), { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("profile");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading user...");
+    });
+  });
+
+  it("should be ignored by plain TanStack APIs", async () => {
+    const queryClient = createTestQueryClient();
+    const queryFn = vi.fn().mockResolvedValue({ id: 1 });
+    const options = blockingQueryOptions({
+      queryKey: ["user", 1],
+      queryFn: queryFn as () => Promise<{ id: number }>,
+      blockingConfig: { scope: "profile" },
+    });
+
+    await queryClient.prefetchQuery(options);
+
+    expect(queryClient.getQueryData(options.queryKey)).toEqual({ id: 1 });
+
+    const { result } = renderHook(() => useQuery(options), {
+      wrapper: createWrapper({ queryClient }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.data).toEqual({ id: 1 });
+    });
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+  });
+});
+
+describe("blockingMutationOptions", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should feed useBlockingMutation with the bundled blockingConfig", async () => {
+    const options = blockingMutationOptions({
+      mutationKey: ["user", "save"],
+      mutationFn: (_name: string) => new Promise<string>(() => undefined),
+      blockingConfig: { scope: "profile-form", reasonOnPending: "Saving profile..." },
+    });
+
+    const { result } = renderHook(() => useBlockingMutation(options), {
+      wrapper: createWrapper(),
+    });
+
+    act(() => {
+      result.current.mutate("Ada");
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("profile-form");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Saving profile...");
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import type { DefaultError, MutationKey } from "@tanstack/react-query";
+import type { UseBlockingMutationOptions } from "../hooks/useBlockingMutation.types";
+
+/**
+ * Bundles `blockingConfig` with mutation options, like TanStack Query's `mutationOptions`.
+ *
+ * The returned object can be passed to `useBlockingMutation` as well as plain TanStack APIs
+ * (`useMutation`, `queryClient.setMutationDefaults`), which ignore `blockingConfig`.
+ *
+ * This is a type-only helper: the options are returned as-is.
+ *
+ * @typeParam TData - The type of data returned by the mutation
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TVariables - The type of variables passed to the mutation
+ * @typeParam TOnMutateResult - The type of value returned by onMutate
+ *
+ * @param options - Mutation options including blocking configuration
+ * @returns The same options
+ *
+ * @example
+ * ```ts
+ * const saveUserOptions = blockingMutationOptions({
+ *   mutationKey: ['user', 'save'],
+ *   mutationFn: (user: User) => api.saveUser(user),
+ *   blockingConfig: { scope: 'profile-form', reasonOnPending: 'Saving profile...' },
+ * });
+ *
+ * const mutation = useBlockingMutation(saveUserOptions);
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/mutationOptions | TanStack Query mutationOptions docs}
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function blockingMutationOptions<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+>(
+  options: UseBlockingMutationOptions<TData, TError, TVariables, TOnMutateResult> & {
+    mutationKey: MutationKey;
+  }
+): UseBlockingMutationOptions<TData, TError, TVariables, TOnMutateResult> & {
+  mutationKey: MutationKey;
+};
+
+export function blockingMutationOptions<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+>(
+  options: UseBlockingMutationOptions<TData, TError, TVariables, TOnMutateResult>
+): UseBlockingMutationOptions<TData, TError, TVariables, TOnMutateResult>;
+
+export function blockingMutationOptions(options: unknown): unknown {
+  return options;
+}
@@ -0,0 +1,90 @@
+import type { DefaultError, QueryKey } from "@tanstack/react-query";
+import type {
+  DefinedInitialDataBlockingOptions,
+  UndefinedInitialDataBlockingOptions,
+  UnusedSkipTokenBlockingOptions,
+  WithTaggedQueryKey,
+} from "./blockingQueryOptions.types";
+
+/**
+ * Bundles `blockingConfig` with query options, like TanStack Query's `queryOptions`.
+ *
+ * The returned object can be passed to `useBlockingQuery`, `useBlockingSuspenseQuery` and
+ * `useBlockingQueries` as well as plain TanStack APIs (`useQuery`, `prefetchQuery`,
+ * `ensureQueryData`), which ignore `blockingConfig`. The `queryKey` is tagged with the
+ * query data type, so `queryClient.getQueryData(options.queryKey)` is inferred.
+ *
+ * This is a type-only helper: the options are returned as-is.
+ *
+ * @typeParam TQueryFnData - The type of data returned by the query function
+ * @typeParam TError - The type of error that can be thrown
+ * @typeParam TData - The type of data returned by the hook (after select transformation)
+ * @typeParam TQueryKey - The type of the query key
+ *
+ * @param options - Query options including blocking configuration
+ * @returns The same options with a tagged `queryKey`
+ *
+ * @example
+ * ```ts
+ * const userOptions = (id: string) =>
+ *   blockingQueryOptions({
+ *     queryKey: ['user', id],
+ *     queryFn: () => fetchUser(id),
+ *     blockingConfig: { scope: 'profile', reasonOnLoading: 'Loading user...' },
+ *   });
+ *
+ * useBlockingQuery(userOptions('1'));           // blocks 'profile'
+ * await queryClient.prefetchQuery(userOptions('1')); // blockingConfig ignored
+ * queryClient.getQueryData(userOptions('1').queryKey); // User | undefined ✅
+ * ```
+ *
+ * @see {@link https://tanstack.com/query/latest/docs/framework/react/reference/queryOptions | TanStack Query queryOptions docs}
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function blockingQueryOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  options: DefinedInitialDataBlockingOptions<TQueryFnData, TError, TData, TQueryKey>
+): WithTaggedQueryKey<
+  DefinedInitialDataBlockingOptions<TQueryFnData, TError, TData, TQueryKey>,
+  TQueryFnData,
+  TError,
+  TQueryKey
+>;
+
+export function blockingQueryOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  options: UnusedSkipTokenBlockingOptions<TQueryFnData, TError, TData, TQueryKey>
+): WithTaggedQueryKey<
+  UnusedSkipTokenBlockingOptions<TQueryFnData, TError, TData, TQueryKey>,
+  TQueryFnData,
+  TError,
+  TQueryKey
+>;
+
+export function blockingQueryOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+>(
+  options: UndefinedInitialDataBlockingOptions<TQueryFnData, TError, TData, TQueryKey>
+): WithTaggedQueryKey<
+  UndefinedInitialDataBlockingOptions<TQueryFnData, TError, TData, TQueryKey>,
+  TQueryFnData,
+  TError,
+  TQueryKey
+>;
+
+export function blockingQueryOptions(options: unknown): unknown {
+  return options;
+}
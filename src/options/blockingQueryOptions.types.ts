@@ -0,0 +1,67 @@
+import type {
+  DataTag,
+  DefaultError,
+  DefinedInitialDataOptions,
+  QueryKey,
+  UndefinedInitialDataOptions,
+  UnusedSkipTokenOptions,
+} from "@tanstack/react-query";
+import type { QueryBlockingConfig } from "../hooks/useBlockingQuery.types";
+
+interface BlockingQueryConfig<TData, TError> {
+  /**
+   * Configuration for UI blocking behavior.
+   * Read by the blocking hooks; plain TanStack APIs ignore it.
+   */
+  blockingConfig?: QueryBlockingConfig<TData, TError>;
+}
+
+interface TaggedQueryKey<TQueryFnData, TError, TQueryKey extends QueryKey> {
+  queryKey: DataTag<TQueryKey, TQueryFnData, TError>;
+}
+
+/**
+ * Query options with `blockingConfig` and `initialData` defined.
+ * Returned by `blockingQueryOptions` with a tagged `queryKey`.
+ */
+export type DefinedInitialDataBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = DefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> &
+  BlockingQueryConfig<TData, TError>;
+
+/**
+ * Query options with `blockingConfig` and a `queryFn` that is not `skipToken`.
+ * Returned by `blockingQueryOptions` with a tagged `queryKey`; accepted by suspense hooks.
+ */
+export type UnusedSkipTokenBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = UnusedSkipTokenOptions<TQueryFnData, TError, TData, TQueryKey> &
+  BlockingQueryConfig<TData, TError>;
+
+/**
+ * Query options with `blockingConfig` and optional `initialData`.
+ * Returned by `blockingQueryOptions` with a tagged `queryKey`.
+ */
+export type UndefinedInitialDataBlockingOptions<
+  TQueryFnData = unknown,
+  TError = DefaultError,
+  TData = TQueryFnData,
+  TQueryKey extends QueryKey = QueryKey,
+> = UndefinedInitialDataOptions<TQueryFnData, TError, TData, TQueryKey> &
+  BlockingQueryConfig<TData, TError>;
+
+/**
+ * Adds the `queryKey` data tag used by `getQueryData` / `setQueryData` inference.
+ */
+export type WithTaggedQueryKey<
+  TOptions,
+  TQueryFnData,
+  TError,
+  TQueryKey extends QueryKey,
+> = TOptions & TaggedQueryKey<TQueryFnData, TError, TQueryKey>;
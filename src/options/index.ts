@@ -0,0 +1,7 @@
+export { blockingQueryOptions } from "./blockingQueryOptions";
+export { blockingMutationOptions } from "./blockingMutationOptions";
+export type {
+  DefinedInitialDataBlockingOptions,
+  UndefinedInitialDataBlockingOptions,
+  UnusedSkipTokenBlockingOptions,
+} from "./blockingQueryOptions.types";
@@ -0,0 +1,59 @@
+import { type ReactElement, createContext, useContext } from "react";
+import type {
+  BlockingDefaults,
+  BlockingDefaultsProviderProps,
+} from "./BlockingDefaultsProvider.types";
+
+const EMPTY_DEFAULTS: BlockingDefaults = {};
+
+const BlockingDefaultsContext = createContext<BlockingDefaults>(EMPTY_DEFAULTS);
+
+/**
+ * Supplies app-wide blocking defaults for every blocking hook in the subtree.
+ *
+ * Defaults are applied per hook kind (`query`, `infiniteQuery`, `queries`, `mutation`)
+ * underneath matched `BlockingRulesProvider` rules and the hook's local `blockingConfig`,
+ * and above the built-in defaults. Use it for localized reasons or a custom priority ladder.
+ *
+ * Defaults never enable blocking on their own: a hook still needs a `blockingConfig`
+ * or a matching rule to register a blocker.
+ *
+ * @param props - Provider props
+ * @param props.defaults - Defaults per hook kind
+ *
+ * @example
+ * ```tsx
+ * const defaults = {
+ *   query: { reason: 'Daten werden geladen...', priority: 20 },
+ *   mutation: { reason: 'Änderungen werden gespeichert...', priority: 60, timeout: 30000 },
+ * };
+ *
+ * function App() {
+ *   return (
+ *     <BlockingDefaultsProvider defaults={defaults}>
+ *       <Routes />
+ *     </BlockingDefaultsProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function BlockingDefaultsProvider({
+  defaults,
+  children,
+}: BlockingDefaultsProviderProps): ReactElement {
+  return (
+    <BlockingDefaultsContext.Provider value={defaults}>{children}</BlockingDefaultsContext.Provider>
+  );
+}
+
+/**
+ * Reads the defaults supplied by the nearest BlockingDefaultsProvider.
+ *
+ * @returns Defaults per hook kind (empty outside a provider)
+ */
+export function useBlockingDefaults(): BlockingDefaults {
+  return useContext(BlockingDefaultsContext);
+}
@@ -0,0 +1,43 @@
+import type { ReactNode } from "react";
+import type { InfiniteQueryBlockingConfig } from "../hooks/useBlockingInfiniteQuery.types";
+import type { IsFetchingBlockingConfig } from "../hooks/useBlockingIsFetching.types";
+import type { IsMutatingBlockingConfig } from "../hooks/useBlockingIsMutating.types";
+import type { MutationBlockingConfig } from "../hooks/useBlockingMutation.types";
+import type { MutationStateBlockingConfig } from "../hooks/useBlockingMutationState.types";
+import type { QueriesBlockingConfig } from "../hooks/useBlockingQueries.types";
+import type { QueryBlockingConfig } from "../hooks/useBlockingQuery.types";
+import type { RestoringBlockingConfig } from "../hooks/useBlockingRestoring.types";
+
+/**
+ * App-wide blocking defaults per hook kind.
+ * Each entry is read before the built-in defaults of the corresponding hook.
+ */
+export interface BlockingDefaults {
+  /** Defaults for `useBlockingQuery` (built-ins: "Loading data...", priority 10) */
+  query?: QueryBlockingConfig;
+  /** Defaults for `useBlockingInfiniteQuery` (built-ins: "Loading more data...", priority 10) */
+  infiniteQuery?: InfiniteQueryBlockingConfig;
+  /** Defaults for `useBlockingQueries` (built-ins: "Loading queries...", priority 10) */
+  queries?: QueriesBlockingConfig;
+  /** Defaults for `useBlockingMutation` (built-ins: "Saving changes...", priority 30) */
+  mutation?: MutationBlockingConfig;
+  /** Defaults for `useBlockingIsFetching` (built-ins: "Loading data...", priority 10) */
+  isFetching?: IsFetchingBlockingConfig;
+  /** Defaults for `useBlockingIsMutating` (built-ins: "Saving changes...", priority 30) */
+  isMutating?: IsMutatingBlockingConfig;
+  /** Defaults for `useBlockingMutationState` (built-ins: "Saving changes...", priority 30) */
+  mutationState?: MutationStateBlockingConfig;
+  /** Defaults for `useBlockingRestoring` (built-ins: "Restoring data...", priority 10) */
+  restoring?: RestoringBlockingConfig;
+}
+
+/**
+ * Props for BlockingDefaultsProvider.
+ */
+export interface BlockingDefaultsProviderProps {
+  /**
+   * Defaults per hook kind. Nested providers replace the defaults of the outer provider.
+   */
+  defaults: BlockingDefaults;
+  children: ReactNode;
+}
@@ -0,0 +1,57 @@
+import { type ReactElement, createContext, useContext } from "react";
+import type { BlockingRule, BlockingRulesProviderProps } from "./BlockingRulesProvider.types";
+
+const EMPTY_RULES: ReadonlyArray<BlockingRule> = [];
+
+const BlockingRulesContext = createContext<ReadonlyArray<BlockingRule>>(EMPTY_RULES);
+
+/**
+ * Declares key-pattern blocking rules for every blocking hook in the subtree.
+ *
+ * Rules are matched against the hook's `queryKey` / `mutationKey` using TanStack Query's
+ * partial key matching. The matched rule is merged under the hook's local `blockingConfig`,
+ * so local fields always win and `blockingConfig` can be omitted when a rule covers the key.
+ *
+ * @param props - Provider props
+ * @param props.rules - Query and mutation blocking rules
+ *
+ * @example
+ * ```tsx
+ * const rules = [
+ *   { queryKey: ['users'], scope: 'users-table', reasonOnLoading: 'Loading users...' },
+ *   { mutationKey: ['checkout'], scope: ['checkout', 'navigation'], priority: 100 },
+ * ];
+ *
+ * function App() {
+ *   return (
+ *     <BlockingRulesProvider rules={rules}>
+ *       <Users />
+ *     </BlockingRulesProvider>
+ *   );
+ * }
+ *
+ * function Users() {
+ *   // Blocks 'users-table' without repeating blockingConfig
+ *   const query = useBlockingQuery({ queryKey: ['users', page], queryFn: fetchUsers });
+ *   return null;
+ * }
+ * ```
+ *
+ * @public
+ * @since 0.4.0
+ */
+export function BlockingRulesProvider({
+  rules,
+  children,
+}: BlockingRulesProviderProps): ReactElement {
+  return <BlockingRulesContext.Provider value={rules}>{children}</BlockingRulesContext.Provider>;
+}
+
+/**
+ * Reads the blocking rules declared by the nearest BlockingRulesProvider.
+ *
+ * @returns Declared rules (empty outside a provider)
+ */
+export function useBlockingRules(): ReadonlyArray<BlockingRule> {
+  return useContext(BlockingRulesContext);
+}
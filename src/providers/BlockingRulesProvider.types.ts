@@ -0,0 +1,57 @@
+import type { MutationKey, QueryKey } from "@tanstack/react-query";
+import type { ReactNode } from "react";
+import type { MutationBlockingConfig } from "../hooks/useBlockingMutation.types";
+import type { QueryBlockingConfig } from "../hooks/useBlockingQuery.types";
+
+/**
+ * Narrows every `reason*` field of a config to a static string.
+ */
+type WithStaticReasons<TConfig> = {
+  [K in keyof TConfig]: K extends `reason${string}`
+    ? Extract<TConfig[K], string | undefined>
+    : TConfig[K];
+};
+
+/**
+ * Blocking rule applied to every query whose key partially matches `queryKey`.
+ * Used by `useBlockingQuery`, `useBlockingInfiniteQuery` and `useBlockingQueries`.
+ * Reasons are static strings, since the same rule may drive a single query or a whole set.
+ */
+export interface QueryBlockingRule extends WithStaticReasons<QueryBlockingConfig> {
+  /**
+   * Key prefix matched with TanStack Query's partial key matching.
+   * `['users']` matches `['users']`, `['users', 1]` and `['users', { page: 2 }]`.
+   */
+  queryKey: QueryKey;
+}
+
+interface MutationBlockingRuleKey {
+  /**
+   * Key prefix matched with TanStack Query's partial key matching.
+   * Only mutations created with a `mutationKey` can match a rule.
+   */
+  mutationKey: MutationKey;
+}
+
+/**
+ * Blocking rule applied to every mutation whose key partially matches `mutationKey`.
+ * Used by `useBlockingMutation`.
+ */
+export type MutationBlockingRule = MutationBlockingConfig & MutationBlockingRuleKey;
+
+/**
+ * A single query or mutation blocking rule.
+ */
+export type BlockingRule = QueryBlockingRule | MutationBlockingRule;
+
+/**
+ * Props for BlockingRulesProvider.
+ */
+export interface BlockingRulesProviderProps {
+  /**
+   * Rules declared once for the subtree. The first rule whose key matches is used,
+   * so declare specific keys before broader prefixes.
+   */
+  rules: ReadonlyArray<BlockingRule>;
+  children: ReactNode;
+}
@@ -0,0 +1,121 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useBlockingInfiniteQuery } from "../../hooks/useBlockingInfiniteQuery";
+import { useBlockingMutation } from "../../hooks/useBlockingMutation";
+import { useBlockingQueries } from "../../hooks/useBlockingQueries";
+import { useBlockingQuery } from "../../hooks/useBlockingQuery";
+import { createWrapper } from "../../test/test.utils";
+import type { BlockingDefaults } from "../BlockingDefaultsProvider.types";
+
+const defaults: BlockingDefaults = {
+  query: { reason: "Daten werden geladen...", priority: 20, scope: "content" },
+  infiniteQuery: { reason: "Weitere Daten werden geladen...", priority: 15 },
+  queries: { reason: "Abfragen werden geladen...", priority: 25 },
+  mutation: { reason: "Änderungen werden gespeichert...", priority: 60 },
+};
+
+describe("BlockingDefaultsProvider", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should apply query defaults before built-in defaults", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(() => useBlockingQuery({ queryKey: ["defaults"], queryFn, blockingConfig: {} }), {
+      wrapper: createWrapper({ defaults }),
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("content");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Daten werden geladen...");
+      expect(info[0]?.priority).toBe(20);
+    });
+  });
+
+  it("should let local blockingConfig override defaults", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["defaults"],
+          queryFn,
+          blockingConfig: { scope: "local", priority: 90 },
+        }),
+      { wrapper: createWrapper({ defaults }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("local");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Daten werden geladen...");
+      expect(info[0]?.priority).toBe(90);
+    });
+  });
+
+  it("should place rule fields above defaults", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(() => useBlockingQuery({ queryKey: ["users"], queryFn }), {
+      wrapper: createWrapper({
+        defaults,
+        rules: [{ queryKey: ["users"], scope: "users", reason: "Loading users..." }],
+      }),
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("users");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading users...");
+      expect(info[0]?.priority).toBe(20);
+    });
+  });
+
+  it("should not enable blocking without blockingConfig or rule", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(() => useBlockingQuery({ queryKey: ["defaults"], queryFn }), {
+      wrapper: createWrapper({ defaults }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("fetching");
+    });
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+  });
+
+  it("should apply per-kind defaults to infinite queries, queries and mutations", async () => {
+    const pending = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () => {
+        useBlockingInfiniteQuery({
+          queryKey: ["infinite"],
+          queryFn: pending,
+          initialPageParam: 0,
+          getNextPageParam: () => undefined,
+          blockingConfig: { scope: "infinite" },
+        });
+        useBlockingQueries([{ queryKey: ["parallel"], queryFn: pending }], { scope: "queries" });
+        return useBlockingMutation({ mutationFn: pending, blockingConfig: { scope: "mutation" } });
+      },
+      { wrapper: createWrapper({ defaults }) }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      const { getBlockingInfo } = uiBlockingStoreApi.getState();
+      expect(getBlockingInfo("infinite")[0]?.reason).toBe("Weitere Daten werden geladen...");
+      expect(getBlockingInfo("infinite")[0]?.priority).toBe(15);
+      expect(getBlockingInfo("queries")[0]?.reason).toBe("Abfragen werden geladen...");
+      expect(getBlockingInfo("queries")[0]?.priority).toBe(25);
+      expect(getBlockingInfo("mutation")[0]?.reason).toBe("Änderungen werden gespeichert...");
+      expect(getBlockingInfo("mutation")[0]?.priority).toBe(60);
+    });
+  });
+});
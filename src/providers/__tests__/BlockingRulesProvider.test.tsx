@@ -0,0 +1,125 @@
+import { uiBlockingStoreApi } from "@okyrychenko-dev/react-action-guard";
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useBlockingInfiniteQuery } from "../../hooks/useBlockingInfiniteQuery";
+import { useBlockingMutation } from "../../hooks/useBlockingMutation";
+import { useBlockingQueries } from "../../hooks/useBlockingQueries";
+import { useBlockingQuery } from "../../hooks/useBlockingQuery";
+import { createWrapper } from "../../test/test.utils";
+import type { BlockingRule } from "../BlockingRulesProvider.types";
+
+const rules: ReadonlyArray<BlockingRule> = [
+  { queryKey: ["users"], scope: "users-table", reasonOnLoading: "Loading users..." },
+  { queryKey: ["feed"], scope: "feed", reasonOnLoading: "Loading feed..." },
+  { mutationKey: ["checkout"], scope: ["checkout", "navigation"], priority: 100 },
+];
+
+describe("BlockingRulesProvider", () => {
+  beforeEach(() => {
+    uiBlockingStoreApi.getState().clearAllBlockers();
+  });
+
+  it("should apply a matching rule to useBlockingQuery without blockingConfig", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(() => useBlockingQuery({ queryKey: ["users", { page: 2 }], queryFn }), {
+      wrapper: createWrapper({ rules }),
+    });
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("users-table");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading users...");
+    });
+  });
+
+  it("should let local blockingConfig override rule fields", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQuery({
+          queryKey: ["users"],
+          queryFn,
+          blockingConfig: { reasonOnLoading: "Loading team..." },
+        }),
+      { wrapper: createWrapper({ rules }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("users-table");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading team...");
+    });
+  });
+
+  it("should not block when neither a rule nor blockingConfig is provided", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(() => useBlockingQuery({ queryKey: ["orders"], queryFn }), {
+      wrapper: createWrapper({ rules }),
+    });
+
+    await waitFor(() => {
+      expect(result.current.fetchStatus).toBe("fetching");
+    });
+
+    expect(uiBlockingStoreApi.getState().activeBlockers.size).toBe(0);
+  });
+
+  it("should apply a matching rule to useBlockingInfiniteQuery", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingInfiniteQuery({
+          queryKey: ["feed", "latest"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: () => undefined,
+        }),
+      { wrapper: createWrapper({ rules }) }
+    );
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("feed");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.reason).toBe("Loading feed...");
+    });
+  });
+
+  it("should apply the first rule matching any query in useBlockingQueries", async () => {
+    const queryFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    renderHook(
+      () =>
+        useBlockingQueries([
+          { queryKey: ["stats"], queryFn },
+          { queryKey: ["users", 1], queryFn },
+        ]),
+      { wrapper: createWrapper({ rules }) }
+    );
+
+    await waitFor(() => {
+      expect(uiBlockingStoreApi.getState().isBlocked("users-table")).toBe(true);
+    });
+  });
+
+  it("should apply a matching rule to useBlockingMutation by mutationKey", async () => {
+    const mutationFn = vi.fn().mockImplementation(() => new Promise(() => undefined));
+
+    const { result } = renderHook(
+      () => useBlockingMutation({ mutationKey: ["checkout", "submit"], mutationFn }),
+      { wrapper: createWrapper({ rules }) }
+    );
+
+    result.current.mutate(undefined);
+
+    await waitFor(() => {
+      const info = uiBlockingStoreApi.getState().getBlockingInfo("navigation");
+      expect(info).toHaveLength(1);
+      expect(info[0]?.priority).toBe(100);
+      expect(uiBlockingStoreApi.getState().isBlocked("checkout")).toBe(true);
+    });
+  });
+});
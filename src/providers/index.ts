@@ -0,0 +1,12 @@
+export { BlockingDefaultsProvider, useBlockingDefaults } from "./BlockingDefaultsProvider";
+export { BlockingRulesProvider, useBlockingRules } from "./BlockingRulesProvider";
+export type {
+  BlockingDefaults,
+  BlockingDefaultsProviderProps,
+} from "./BlockingDefaultsProvider.types";
+export type {
+  BlockingRule,
+  BlockingRulesProviderProps,
+  MutationBlockingRule,
+  QueryBlockingRule,
+} from "./BlockingRulesProvider.types";
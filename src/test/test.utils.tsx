@@ -1,6 +1,9 @@
+import { UIBlockingProvider } from "@okyrychenko-dev/react-action-guard";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { act } from "@testing-library/react";
-import { ReactElement, ReactNode, StrictMode } from "react";
+import { ReactElement, ReactNode, StrictMode, Suspense } from "react";
+import { BlockingDefaultsProvider, BlockingRulesProvider } from "../providers";
+import type { BlockingDefaults, BlockingRule } from "../providers";
 
 /**
  * Helper to execute an async function with proper act() wrapping
@@ -14,20 +17,57 @@ export async function actAsync<T>(fn: () => Promise<T>): Promise<T> {
 
 interface CreateWrapperOptions {
   strictMode?: boolean;
+  /** Wrap children in an isolated UIBlockingProvider store */
+  isolated?: boolean;
+  /** Use an existing QueryClient instead of creating a new one */
+  queryClient?: QueryClient;
+  /** Blocking rules provided through BlockingRulesProvider */
+  rules?: ReadonlyArray<BlockingRule>;
+  /** Blocking defaults provided through BlockingDefaultsProvider */
+  defaults?: BlockingDefaults;
+  /** Wrap children in a Suspense boundary with an empty fallback */
+  suspense?: boolean;
 }
 
-// Helper to create a wrapper with QueryClient
-export function createWrapper(options: CreateWrapperOptions = {}) {
-  const queryClient = new QueryClient({
+// Helper to create a QueryClient with test-friendly defaults
+export function createTestQueryClient(): QueryClient {
+  return new QueryClient({
     defaultOptions: {
       mutations: {
         retry: false,
       },
     },
   });
+}
+
+// Helper to create a wrapper with QueryClient
+export function createWrapper(options: CreateWrapperOptions = {}) {
+  const queryClient = options.queryClient ?? createTestQueryClient();
 
   return function ({ children }: { children: ReactNode }): ReactElement {
-    const content = <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+    const suspendedChildren = options.suspense ? (
+      <Suspense fallback={null}>{children}</Suspense>
+    ) : (
+      children
+    );
+    const defaultedChildren = options.defaults ? (
+      <BlockingDefaultsProvider defaults={options.defaults}>
+        {suspendedChildren}
+      </BlockingDefaultsProvider>
+    ) : (
+      suspendedChildren
+    );
+    const ruledChildren = options.rules ? (
+      <BlockingRulesProvider rules={options.rules}>{defaultedChildren}</BlockingRulesProvider>
+    ) : (
+      defaultedChildren
+    );
+    const tree = options.isolated ? (
+      <UIBlockingProvider>{ruledChildren}</UIBlockingProvider>
+    ) : (
+      ruledChildren
+    );
+    const content = <QueryClientProvider client={queryClient}>{tree}</QueryClientProvider>;
 
     if (options.strictMode) {
       return <StrictMode>{content}</StrictMode>;
@@ -1,8 +1,20 @@
+import type { useResolvedStoreApi } from "@okyrychenko-dev/react-action-guard";
+
+/**
+ * A blocking reason: either a static message or a function of the current state,
+ * called whenever the state changes (e.g. `(query) => \`Attempt ${query.failureCount + 1}...\``).
+ *
+ * @typeParam TState - State passed to function reasons
+ */
+export type BlockingReason<TState> = string | ((state: TState) => string);
+
 /**
  * Base configuration shared by all blocking hooks.
  * Defines common properties for UI blocking behavior.
+ *
+ * @typeParam TReason - Type of the reason fields (static strings unless a hook supports lazy reasons)
  */
-export interface BaseBlockingConfig {
+export interface BaseBlockingConfig<TReason = string> {
   /**
    * Scope(s) to block. Can be a single string or array of strings.
    * Use scopes to control which parts of your UI should be blocked.
@@ -17,7 +29,7 @@ export interface BaseBlockingConfig {
    * Default message for blocking states.
    * Can be overridden by specific state reasons.
    */
-  reason?: string;
+  reason?: TReason;
   /**
    * Automatically remove the blocker after N milliseconds.
    * Useful for preventing stale blockers when requests hang.
@@ -27,19 +39,50 @@ export interface BaseBlockingConfig {
    * Callback invoked when the blocker is automatically removed due to timeout.
    */
   onTimeout?: (blockerId: string) => void;
+  /**
+   * Only register the blocker once the blocking state has lasted N milliseconds.
+   * Operations that finish sooner never block, so fast requests don't flash overlays.
+   * Applies to the hooks; the suspended phase of suspense hooks and the `client` helpers
+   * (`attachBlocking`, loaders, refetch wrappers) register blockers immediately.
+   */
+  delay?: number;
+  /**
+   * Once registered, keep the blocker for at least N milliseconds, even if the blocking
+   * state ends sooner. The blocker is still removed immediately on unmount.
+   */
+  minDuration?: number;
+}
+
+/**
+ * Actions a blocking hook attaches to its blocker, so UI that only sees the blocker
+ * (e.g. a global overlay reading `useBlockingInfo`) can act on the originating operation.
+ */
+export interface BlockerActions {
+  /** Cancels the query, or resets the mutation */
+  cancel?: () => void;
+  /** Refetches the query, or runs the mutation again with its last variables */
+  retry?: () => void;
 }
 
 /**
  * State-based reason configuration for dynamic blocking messages.
+ *
+ * @typeParam TState - State passed to function reasons (`void` when all reasons are strings)
  */
-export interface ReasonConfig {
+export interface ReasonConfig<TState = void> {
   /** Default reason to use when no specific reason is provided */
-  defaultReason: string;
+  defaultReason: BlockingReason<TState>;
   /** Map of state conditions to their specific reasons */
   stateReasons: ReadonlyArray<{
     /** Condition that must be true for this reason to be used */
     condition: boolean;
     /** Reason to use when condition is true */
-    reason: string | undefined;
+    reason: BlockingReason<TState> | undefined;
   }>;
 }
+
+/**
+ * Store API used to register blockers outside of React components.
+ * Accepts the global `uiBlockingStoreApi` or a store resolved from an isolated provider.
+ */
+export type BlockingStoreApi = ReturnType<typeof useResolvedStoreApi>;
@@ -1 +1,7 @@
-export type { BaseBlockingConfig, ReasonConfig } from "./common.types";
+export type {
+  BaseBlockingConfig,
+  BlockerActions,
+  BlockingReason,
+  BlockingStoreApi,
+  ReasonConfig,
+} from "./common.types";
@@ -0,0 +1,68 @@
+import { type MutationKey, type QueryKey, partialMatchKey } from "@tanstack/react-query";
+import type {
+  BlockingRule,
+  MutationBlockingRule,
+  QueryBlockingRule,
+} from "../providers/BlockingRulesProvider.types";
+
+/**
+ * Finds the first query rule whose key partially matches the given query key.
+ *
+ * @param rules - Declared blocking rules
+ * @param queryKey - Query key to match
+ * @returns The matching rule, if any
+ */
+export function findQueryBlockingRule(
+  rules: ReadonlyArray<BlockingRule>,
+  queryKey: QueryKey
+): QueryBlockingRule | undefined {
+  return rules.find(
+    (rule): rule is QueryBlockingRule =>
+      "queryKey" in rule && partialMatchKey(queryKey, rule.queryKey)
+  );
+}
+
+/**
+ * Finds the first mutation rule whose key partially matches the given mutation key.
+ * Mutations without a key never match.
+ *
+ * @param rules - Declared blocking rules
+ * @param mutationKey - Mutation key to match
+ * @returns The matching rule, if any
+ */
+export function findMutationBlockingRule(
+  rules: ReadonlyArray<BlockingRule>,
+  mutationKey: MutationKey | undefined
+): MutationBlockingRule | undefined {
+  if (!mutationKey) {
+    return undefined;
+  }
+
+  return rules.find(
+    (rule): rule is MutationBlockingRule =>
+      "mutationKey" in rule && partialMatchKey(mutationKey, rule.mutationKey)
+  );
+}
+
+/**
+ * Merges a matched rule under a local blocking config.
+ * Local fields take precedence; either side may be missing.
+ *
+ * @param ruleConfig - Config from the matched rule
+ * @param localConfig - Config passed to the hook
+ * @returns The merged config, or undefined when neither is provided
+ */
+export function mergeBlockingConfig<TConfig extends object>(
+  ruleConfig: TConfig | undefined,
+  localConfig: TConfig | undefined
+): TConfig | undefined {
+  if (!ruleConfig) {
+    return localConfig;
+  }
+
+  if (!localConfig) {
+    return ruleConfig;
+  }
+
+  return { ...ruleConfig, ...localConfig };
+}
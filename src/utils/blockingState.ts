@@ -0,0 +1,21 @@
+import type { QueryState } from "@tanstack/react-query";
+import type { QueryBlockingState } from "../hooks/useBlockingQuery.types";
+
+/**
+ * Builds the state passed to function reasons from a cached query state.
+ * Used where no observer result exists yet: while suspended, in loaders and in `attachBlocking`.
+ * A query that is not in the cache yet is reported as pending.
+ *
+ * @param state - Query state from the QueryCache, if the query exists
+ * @returns State for function reasons
+ */
+export function getQueryBlockingState(state: QueryState | undefined): QueryBlockingState {
+  return {
+    data: state?.data,
+    error: state?.error ?? null,
+    failureCount: state?.fetchFailureCount ?? 0,
+    failureReason: state?.fetchFailureReason ?? null,
+    status: state?.status ?? "pending",
+    fetchStatus: state?.fetchStatus ?? "idle",
+  };
+}
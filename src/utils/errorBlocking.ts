@@ -0,0 +1,23 @@
+import { BlockingTimeoutError } from "./timeoutError";
+
+/**
+ * Whether a failed query or mutation blocks for its error: every error does,
+ * unless `shouldBlockOnError` rejects it (e.g. 404s or aborted requests).
+ * A `BlockingTimeoutError` never blocks again, as its blocker has just timed out.
+ *
+ * @param isError - Whether the query or mutation is in the error state
+ * @param error - Error of the query or mutation
+ * @param shouldBlockOnError - Optional error predicate from the blocking config
+ * @returns Whether the error state should block
+ */
+export function isBlockingError<TError>(
+  isError: boolean,
+  error: TError | null,
+  shouldBlockOnError: ((error: TError) => boolean) | undefined
+): boolean {
+  return (
+    isError &&
+    !(error instanceof BlockingTimeoutError) &&
+    (shouldBlockOnError === undefined || shouldBlockOnError(error as TError))
+  );
+}
@@ -1 +1,16 @@
+export { getQueryBlockingState } from "./blockingState";
+export {
+  findMutationBlockingRule,
+  findQueryBlockingRule,
+  mergeBlockingConfig,
+} from "./blockingRules";
+export { isBlockingError } from "./errorBlocking";
+export { getInfiniteFetchingState } from "./infiniteFetching";
+export { isPromiseLike } from "./isPromiseLike";
+export { countQueryStates, getQueriesErrorState, isAggregateMet } from "./queriesAggregate";
 export { resolveBlockingReason } from "./reasonResolver";
+export { formatBlockingReason } from "./reasonTemplate";
+export { resolveRetryDelay } from "./retryDelay";
+export type { RetryDelayOption } from "./retryDelay";
+export { BlockingTimeoutError } from "./timeoutError";
+export { resolveVariablesValue } from "./variablesValue";
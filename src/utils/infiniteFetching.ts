@@ -0,0 +1,78 @@
+import type { InfiniteQueryBlockingConfig } from "../hooks/useBlockingInfiniteQuery.types";
+import type { QueryBlockingReason } from "../hooks/useBlockingQuery.types";
+
+interface InfiniteFetchingFlags {
+  isRefetching: boolean;
+  isFetchingNextPage: boolean;
+  isFetchingPreviousPage: boolean;
+}
+
+/**
+ * Blocking state of an infinite query while it fetches after the first page.
+ */
+interface InfiniteFetchingState {
+  /** Whether a refetch or next/previous page load is running */
+  isFetching: boolean;
+  /** Whether the running fetch blocks according to its direction toggle */
+  shouldBlock: boolean;
+  /** Scope of the running fetch direction, or `scope` */
+  scope: string | ReadonlyArray<string> | undefined;
+  /** Fetching reasons, most specific direction first, falling back to `reasonOnFetching` */
+  stateReasons: Array<{ condition: boolean; reason: QueryBlockingReason | undefined }>;
+}
+
+/**
+ * Resolves the direction-specific fetching controls of an infinite query config.
+ * `onRefetching`, `onFetchingNextPage` and `onFetchingPreviousPage` default to `onFetching`,
+ * and direction scopes only apply while that direction blocks.
+ *
+ * @param query - Fetching flags of the infinite query result
+ * @param config - Resolved infinite query blocking config
+ * @returns Fetching flags, blocking decision, scope and reasons for the running fetch
+ */
+export function getInfiniteFetchingState(
+  query: InfiniteFetchingFlags,
+  config: InfiniteQueryBlockingConfig
+): InfiniteFetchingState {
+  const {
+    scope,
+    onFetching = false,
+    onRefetching = onFetching,
+    onFetchingNextPage = onFetching,
+    onFetchingPreviousPage = onFetching,
+    scopeOnFetchingNextPage = scope,
+    scopeOnFetchingPreviousPage = scope,
+    reasonOnFetching,
+    reasonOnRefetching,
+    reasonOnFetchingNextPage,
+    reasonOnFetchingPreviousPage,
+  } = config;
+
+  const isFetching = query.isRefetching || query.isFetchingNextPage || query.isFetchingPreviousPage;
+  const isBlockingNextPage = onFetchingNextPage && query.isFetchingNextPage;
+  const isBlockingPreviousPage = onFetchingPreviousPage && query.isFetchingPreviousPage;
+
+  let currentScope = scope;
+
+  if (isBlockingNextPage) {
+    currentScope = scopeOnFetchingNextPage;
+  } else if (isBlockingPreviousPage) {
+    currentScope = scopeOnFetchingPreviousPage;
+  }
+
+  return {
+    isFetching,
+    shouldBlock:
+      (onRefetching && query.isRefetching) || isBlockingNextPage || isBlockingPreviousPage,
+    scope: currentScope,
+    stateReasons: [
+      { condition: query.isFetchingNextPage, reason: reasonOnFetchingNextPage },
+      { condition: query.isFetchingPreviousPage, reason: reasonOnFetchingPreviousPage },
+      { condition: query.isRefetching, reason: reasonOnRefetching },
+      {
+        condition: query.isRefetching || query.isFetchingNextPage || query.isFetchingPreviousPage,
+        reason: reasonOnFetching,
+      },
+    ],
+  };
+}
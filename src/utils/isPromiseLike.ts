@@ -0,0 +1,13 @@
+/**
+ * Checks whether a value is a thenable (a promise or promise-like object).
+ *
+ * @param value - Value to check
+ * @returns True when the value has a `then` method
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
@@ -0,0 +1,95 @@
+import { isBlockingError } from "./errorBlocking";
+import type { DefaultError, FetchStatus, QueryObserverResult } from "@tanstack/react-query";
+import type { QueriesAggregate, QueriesCounts } from "../hooks/useBlockingQueries.types";
+import type { QueryBlockingState, QueryErrorBlockingReason } from "../hooks/useBlockingQuery.types";
+
+interface QueryStateFlags {
+  isPending: boolean;
+  isRefetching: boolean;
+  isError: boolean;
+  fetchStatus: FetchStatus;
+}
+
+/**
+ * Counts the states of parallel query results.
+ * The counts double as placeholder values for `useBlockingQueries` reasons.
+ *
+ * @param results - Results returned by `useQueries` / `useSuspenseQueries`
+ * @returns Counts per state, the number of settled queries and the total
+ */
+export function countQueryStates(results: ReadonlyArray<QueryStateFlags>): QueriesCounts {
+  const loading = results.filter((result) => result.isPending).length;
+
+  return {
+    loading,
+    fetching: results.filter((result) => result.isRefetching).length,
+    error: results.filter((result) => result.isError).length,
+    paused: results.filter((result) => result.fetchStatus === "paused").length,
+    settled: results.length - loading,
+    total: results.length,
+  };
+}
+
+/**
+ * Failed queries that block for `onError` and the resulting error reason.
+ */
+interface QueriesErrorState {
+  /** Number of failed queries accepted by `shouldBlockOnError` */
+  count: number;
+  /** `reasonOnError`, resolved with the first of those queries when it is a function */
+  reason: string | undefined;
+}
+
+/**
+ * Collects the failed queries that count towards `onError` of a shared blocker.
+ *
+ * @param results - Results returned by `useQueries` / `useSuspenseQueries`
+ * @param shouldBlockOnError - Optional error predicate from the blocking config
+ * @param reasonOnError - Error reason from the blocking config
+ * @returns Number of blocking errors and the resolved error reason
+ */
+export function getQueriesErrorState(
+  results: ReadonlyArray<QueryObserverResult>,
+  shouldBlockOnError: ((error: DefaultError) => boolean) | undefined,
+  reasonOnError: QueryErrorBlockingReason<unknown, DefaultError> | undefined
+): QueriesErrorState {
+  const blockingErrors = results.filter((result) =>
+    isBlockingError(result.isError, result.error, shouldBlockOnError)
+  );
+  const count = blockingErrors.length;
+
+  if (typeof reasonOnError !== "function") {
+    return { count, reason: reasonOnError };
+  }
+
+  // Failed queries always carry their error.
+  const firstError = blockingErrors[0] as QueryBlockingState<unknown, DefaultError> & {
+    error: DefaultError;
+  };
+
+  return { count, reason: count > 0 ? reasonOnError(firstError) : undefined };
+}
+
+/**
+ * Checks whether enough queries are in a state to satisfy the aggregation mode.
+ *
+ * @param count - Number of queries in the state
+ * @param total - Total number of queries
+ * @param aggregate - Aggregation mode (default: 'any')
+ * @returns True when the state should block
+ */
+export function isAggregateMet(
+  count: number,
+  total: number,
+  aggregate: QueriesAggregate = "any"
+): boolean {
+  if (aggregate === "any") {
+    return count > 0;
+  }
+
+  if (aggregate === "all") {
+    return total > 0 && count === total;
+  }
+
+  return count > 0 && count >= aggregate.atLeast;
+}
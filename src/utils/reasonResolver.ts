@@ -1,21 +1,34 @@
-import { ReasonConfig } from "../types";
+import type { BlockingReason, ReasonConfig } from "../types";
+
+function evaluateReason<TState>(reason: BlockingReason<TState>, state: TState): string {
+  return typeof reason === "function" ? reason(state) : reason;
+}
 
 /**
  * Resolves the appropriate blocking reason based on current state.
  * Uses a priority-based approach: checks conditions in order and returns the first matching reason.
  * Falls back to defaultReason if no specific reason is defined.
+ * Function reasons are called with `state`; string-only configs can omit it.
  *
  * @param config - Configuration with default and state-specific reasons
+ * @param state - Current state passed to function reasons (e.g. the query result)
  * @returns The resolved reason string
  */
-export function resolveBlockingReason(config: ReasonConfig): string {
+export function resolveBlockingReason(config: ReasonConfig): string;
+export function resolveBlockingReason<TState>(config: ReasonConfig<TState>, state: TState): string;
+export function resolveBlockingReason<TState>(
+  config: ReasonConfig<TState>,
+  state?: TState
+): string {
   const { defaultReason, stateReasons } = config;
+  // Only reachable without `state` through the string-only overload, where it is never read.
+  const reasonState = state as TState;
 
   for (const { condition, reason } of stateReasons) {
     if (condition && reason !== undefined) {
-      return reason;
+      return evaluateReason(reason, reasonState);
     }
   }
 
-  return defaultReason;
+  return evaluateReason(defaultReason, reasonState);
 }
@@ -0,0 +1,16 @@
+/**
+ * Replaces `{name}` placeholders in a blocking reason with the given values.
+ * Placeholders without a matching value are left untouched.
+ *
+ * @param reason - Reason that may contain placeholders (e.g. "Syncing {count} orders...")
+ * @param values - Values for the placeholders
+ * @returns The formatted reason
+ */
+export function formatBlockingReason(
+  reason: string,
+  values: Readonly<Record<string, number | string>>
+): string {
+  return reason.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
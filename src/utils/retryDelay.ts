@@ -0,0 +1,32 @@
+/**
+ * `retryDelay` option of a query or mutation: a fixed delay or a function of the failure.
+ */
+export type RetryDelayOption<TError> =
+  | number
+  | ((failureCount: number, error: TError) => number)
+  | undefined;
+
+/**
+ * Computes the delay before the next attempt the same way TanStack Query's retryer does:
+ * the configured `retryDelay`, or exponential backoff capped at 30 seconds.
+ * The retryer calls `retryDelay` before incrementing its failure count, so the delay of
+ * the n-th failure is computed with `n - 1`.
+ *
+ * @param retryDelay - `retryDelay` option of the query or mutation
+ * @param failureCount - Number of failed attempts so far
+ * @param error - Error of the last failed attempt
+ * @returns Delay in milliseconds between the last failure and the next attempt
+ */
+export function resolveRetryDelay<TError>(
+  retryDelay: RetryDelayOption<TError>,
+  failureCount: number,
+  error: TError
+): number {
+  const previousFailures = Math.max(failureCount - 1, 0);
+
+  if (typeof retryDelay === "function") {
+    return retryDelay(previousFailures, error);
+  }
+
+  return retryDelay ?? Math.min(1000 * 2 ** previousFailures, 30000);
+}
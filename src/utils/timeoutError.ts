@@ -0,0 +1,17 @@
+/**
+ * Error a query is failed with when its blocker times out with `onTimeoutAction: 'error'`.
+ * Check for it with `instanceof` to render a dedicated timeout state.
+ */
+export class BlockingTimeoutError extends Error {
+  /** ID of the blocker that timed out */
+  readonly blockerId: string;
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeout: number;
+
+  constructor(blockerId: string, timeout: number) {
+    super(`Blocker "${blockerId}" timed out after ${String(timeout)}ms`);
+    this.name = "BlockingTimeoutError";
+    this.blockerId = blockerId;
+    this.timeout = timeout;
+  }
+}
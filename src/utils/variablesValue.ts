@@ -0,0 +1,17 @@
+import type { MutationVariablesValue } from "../hooks/useBlockingMutation.types";
+
+/**
+ * Resolves a config value that may be a function of the mutation variables.
+ *
+ * @param value - Static value or function of the variables
+ * @param variables - Variables of the current mutation submission
+ * @returns The resolved value
+ */
+export function resolveVariablesValue<TValue, TVariables>(
+  value: MutationVariablesValue<TValue, TVariables>,
+  variables: TVariables
+): TValue {
+  return typeof value === "function"
+    ? (value as (variables: TVariables) => TValue)(variables)
+    : value;
+}